@@ -1,67 +1,115 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GameEngine } from './game/GameEngine';
-import { GameStats } from './types';
+import { GameRunner } from './game/GameRunner';
+import { Random } from './game/Random';
+import { DEFAULT_LEVEL } from './game/Levels';
+import { type ReplayData, parseReplay, serializeReplay } from './game/Replay';
+import { type SaveData, clearSave, loadSave, writeSave } from './game/SaveGame';
+import { type DifficultyId, GAME_MODES, GAME_VERSION, GameAction, type GameMode, type GameStats, TICKS_PER_SECOND } from './types';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, DIFFICULTY_IDS } from './game/Difficulty';
+import { type KeyBindings, formatBinding, formatKeyCode, loadKeyBindings, saveKeyBindings } from './game/InputBindings';
+import ControlsScreen from './components/ControlsScreen';
+import BossHealthBar from './components/BossHealthBar';
+import BuffIndicator from './components/BuffIndicator';
+import HighScoresScreen from './components/HighScoresScreen';
+import InitialsEntry from './components/InitialsEntry';
+import RunSummary from './components/RunSummary';
+import type { RunStats } from './game/RunStats';
+import { type HighScoreEntry, addHighScore, bossesDefeated, entryFromStats, formatPlayTime, loadHighScores, qualifiesForHighScore, wavesSurvived } from './game/HighScores';
+import { PAD_LABELS } from './game/GamepadInput';
+import { isTouchDevice } from './game/TouchInput';
+import { useGamepadConnected, useGamepadNavigation } from './hooks/useGamepad';
 import { audioManager, ThemeType } from '../src/game/AudioManager';
 
+/**
+ * Saves the finished run as a JSON replay file through a temporary download link.
+ */
+const downloadReplay = (data: ReplayData) => {
+  const blob = new Blob([serializeReplay(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sunset-brawler-${data.seed}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Menu label, what the HUD calls a phase and the menu blurb for each game mode
+const MODE_INFO: Record<GameMode, { label: string; phase: string; blurb: string }> = {
+  campaign: { label: 'Campaign', phase: 'Phase', blurb: '' },
+  endless: { label: 'Endless', phase: 'Wave', blurb: 'Survive escalating waves and boss rematches' },
+  bossRush: { label: 'Boss Rush', phase: 'Boss', blurb: 'Every boss back to back against the clock' },
+};
+
 const App: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const engineRef = useRef<GameEngine | null>(null);
-  const [gameState, setGameState] = useState<'menu' | 'playing'>('menu');
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const engineRef = useRef<GameRunner | null>(null);
+  const [gameState, setGameState] = useState<'menu' | 'controls' | 'highscores' | 'playing'>('menu');
   const [resetKey, setResetKey] = useState(0); 
   const [volume, setVolume] = useState(0.4);
   const [isMusicMuted, setIsMusicMuted] = useState(false);
+  const [seedText, setSeedText] = useState('');
+  const [difficulty, setDifficulty] = useState<DifficultyId>(DEFAULT_DIFFICULTY);
+  const [gameMode, setGameMode] = useState<GameMode>('campaign');
+  const [replay, setReplay] = useState<ReplayData | null>(null);
+  // Save offered by the menu's Continue button, and the one the current run resumed from
+  const [savedRun, setSavedRun] = useState<SaveData | null>(() => loadSave());
+  const [continueRun, setContinueRun] = useState<SaveData | null>(null);
+  // A continued run (and its restarts) keeps the save's difficulty and mode without touching the menu's picks
+  const [continuedSettings, setContinuedSettings] = useState<{ difficulty: DifficultyId; mode: GameMode } | null>(null);
+  const [highScores, setHighScores] = useState(() => Object.fromEntries(
+    GAME_MODES.map(mode => [mode, loadHighScores(mode)])
+  ) as Record<GameMode, HighScoreEntry[]>);
+  // Table position of this run's entry once initials are in (-1: missed the cut)
+  const [scoreRank, setScoreRank] = useState<number | null>(null);
+  const [runSummary, setRunSummary] = useState<RunStats | null>(null);
+  const [replayError, setReplayError] = useState('');
+  const [showTouchControls, setShowTouchControls] = useState(() => isTouchDevice());
+  const [playerCount, setPlayerCount] = useState(1);
+  const [bindingSets, setBindingSets] = useState<KeyBindings[]>(() => [loadKeyBindings(0), loadKeyBindings(1)]);
+  const keyBindings = bindingSets[0];
   const [stats, setStats] = useState<GameStats>({
     hp: 100,
     maxHp: 100,
     chaos: 0,
     multiplier: 1,
+    chaosBoost: null,
     phase: 1,
+    phaseCount: DEFAULT_LEVEL.phases.length,
+    phaseName: DEFAULT_LEVEL.phases[0].name,
     streak: 0,
+    maxStreak: 0,
+    maxMultiplier: 1,
+    ticks: 0,
     targetChaos: 100,
     specialCooldown: 0,
     specialUnlocked: false,
     isBossActive: false,
+    boss: null,
     isVictory: false,
-    isPaused: false
+    isGameOver: false,
+    isPaused: false,
+    seed: 0,
+    difficulty: DEFAULT_DIFFICULTY,
+    mode: 'campaign',
+    players: [{ hp: 100, maxHp: 100, specialCooldown: 0, isDown: false, reviveProgress: 0, combo: 0, guard: 1, buffs: [] }]
   });
 
-  const prevAudioKey = useRef<string>("");
+  const padConnected = useGamepadConnected();
 
-  // Surgical audio effect that only triggers on relevant logical state changes
-  useEffect(() => {
-    const isDead = stats.hp <= 0;
-    let theme: ThemeType = ThemeType.MENU;
-
-    if (gameState === 'menu' || stats.isPaused) {
-      theme = ThemeType.MENU;
-    } else if (isDead) {
-      theme = ThemeType.DEFEAT;
-    } else if (stats.isVictory) {
-      theme = ThemeType.VICTORY;
-    } else if (stats.isBossActive) {
-      theme = stats.phase === 3 ? ThemeType.BOSS_1 : ThemeType.BOSS_2;
-    } else {
-      const phaseKey = `PHASE_${stats.phase}` as keyof typeof ThemeType;
-      theme = ThemeType[phaseKey] || ThemeType.PHASE_1;
-    }
+  // Pad drives the DOM only on screens with buttons; during play it feeds the engine
+  useGamepadNavigation(gameState !== 'playing' || stats.isPaused || stats.isGameOver || stats.isVictory);
 
-    // Only trigger playTheme if the conceptual music state actually changed
-    // We add the pause state to the key so that unpausing within the same phase re-triggers the correct theme
-    const currentKey = `${theme}_${stats.isPaused}_${gameState}`;
-    if (currentKey !== prevAudioKey.current) {
-      prevAudioKey.current = currentKey;
-      audioManager.playTheme(theme, true);
-    }
-  }, [gameState, stats.isPaused, stats.phase, stats.isBossActive, stats.isVictory, stats.hp <= 0]);
+  // Screens outside a run play the menu theme; during a run the GameRunner follows the engine's events
+  useEffect(() => {
+    if (gameState !== 'playing') audioManager.playTheme(ThemeType.MENU, true);
+  }, [gameState]);
 
   // Handle first interaction for autoplay policy
   useEffect(() => {
     const interactionHandler = async () => {
-      await audioManager.init();
-      // Force an update to start music
-      prevAudioKey.current = "FORCE_UPDATE"; 
-      window.dispatchEvent(new Event('resize')); // Dummy trigger for state update if needed, but the effect will run anyway
+      await audioManager.unlock();
       window.removeEventListener('click', interactionHandler);
       window.removeEventListener('keydown', interactionHandler);
       window.removeEventListener('touchstart', interactionHandler);
@@ -82,9 +130,54 @@ const App: React.FC = () => {
 
   useEffect(() => {
     if (gameState === 'playing' && canvasRef.current) {
-      engineRef.current = new GameEngine(canvasRef.current, (newStats) => {
-        setStats(newStats);
-      });
+      let runner: GameRunner;
+      try {
+        runner = new GameRunner(canvasRef.current, {
+          seed: Random.parseSeed(seedText) ?? undefined,
+          replay: replay ?? undefined,
+          save: continueRun ?? undefined,
+          keyBindings: bindingSets,
+          players: playerCount,
+          difficulty: continuedSettings?.difficulty ?? difficulty,
+          mode: continuedSettings?.mode ?? gameMode,
+          touchControls: showTouchControls
+        });
+      } catch (e) {
+        if (!continueRun) throw e;
+        // A save can parse yet still not fit this build (e.g. one written for another level); drop it like an unreadable one
+        console.warn("App: Discarding a save that failed to restore", e);
+        engineRef.current = null;
+        clearSave();
+        setSavedRun(null);
+        setContinueRun(null);
+        setContinuedSettings(null);
+        setGameState('menu');
+        return;
+      }
+      engineRef.current = runner;
+      setScoreRank(null);
+      setRunSummary(null);
+      runner.events.on('stats', setStats);
+      const showSummary = () => setRunSummary(runner.getRunStats());
+      runner.events.on('gameOver', showSummary);
+      runner.events.on('victory', showSummary);
+      // Live runs auto-save on entering each phase; a finished run leaves nothing to continue
+      if (!replay) {
+        // Events fire mid-tick, so the save waits for the tick's closing stats
+        let phaseStarted = false;
+        runner.events.on('phaseStarted', () => { phaseStarted = true; });
+        runner.events.on('stats', () => {
+          if (!phaseStarted) return;
+          phaseStarted = false;
+          saveCurrentRun();
+        });
+        const endRun = () => {
+          clearSave();
+          setSavedRun(null);
+        };
+        runner.events.on('gameOver', endRun);
+        runner.events.on('victory', endRun);
+      }
       canvasRef.current.focus();
     }
     return () => {
@@ -92,23 +185,81 @@ const App: React.FC = () => {
     };
   }, [gameState, resetKey]);
 
+  // Closing the tab mid-run keeps the run
+  useEffect(() => {
+    if (gameState !== 'playing' || replay) return;
+    const handlePageHide = () => saveCurrentRun();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [gameState, replay]);
+
+  useEffect(() => {
+    engineRef.current?.setTouchControlsVisible(showTouchControls);
+  }, [showTouchControls]);
+
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseFloat(e.target.value);
     setVolume(val);
     audioManager.setVolume(val);
   };
 
+  /** Writes the live run to the save slot; replays and finished runs are skipped */
+  const saveCurrentRun = () => {
+    const runner = engineRef.current;
+    if (!runner || replay || runner.isFinished()) return;
+    const save = runner.toSave();
+    writeSave(save);
+    setSavedRun(save);
+  };
+
+  const handleScoreSubmit = (initials: string) => {
+    const { scores, rank } = addHighScore({ ...entryFromStats(stats), initials, date: Date.now() });
+    setHighScores(prev => ({ ...prev, [stats.mode]: scores }));
+    setScoreRank(rank);
+  };
+
   const handleRestart = () => {
     engineRef.current?.cleanup();
+    setContinueRun(null);
     setResetKey(prev => prev + 1);
     setGameState('playing');
   };
 
   const handleReturnToMenu = () => {
+    saveCurrentRun();
     engineRef.current?.cleanup();
+    setReplay(null);
     setGameState('menu');
   };
 
+  const handleDownloadReplay = () => {
+    const data = engineRef.current?.getReplay();
+    if (data) downloadReplay(data);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const data = parseReplay(await file.text());
+      // Gameplay rules change between versions, so an older replay would drift off its recording
+      if (data.version !== GAME_VERSION) throw new Error(`Replay was recorded on v${data.version}; this is v${GAME_VERSION}`);
+      setReplayError('');
+      setContinueRun(null);
+      setContinuedSettings(null);
+      setReplay(data);
+      setGameState('playing');
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : 'Could not read replay');
+    }
+  };
+
+  const handleBindingsChange = useCallback((slot: number, next: KeyBindings) => {
+    setBindingSets(prev => prev.map((set, i) => i === slot ? next : set));
+    saveKeyBindings(next, slot);
+  }, []);
+
   const togglePause = () => {
     engineRef.current?.togglePause();
   };
@@ -117,7 +268,27 @@ const App: React.FC = () => {
     setIsMusicMuted(prev => !prev);
   };
 
-  const hpPercentage = Math.max(0, (stats.hp / stats.maxHp) * 100);
+  const moveLabel = [GameAction.MOVE_UP, GameAction.MOVE_LEFT, GameAction.MOVE_DOWN, GameAction.MOVE_RIGHT]
+    .map(action => formatKeyCode(keyBindings[action][0] ?? null))
+    .join('');
+  const pauseLabel = formatKeyCode(keyBindings[GameAction.PAUSE][0] ?? null);
+  // Replays don't score; a run enters the table once
+  const canEnterScore = !replay && scoreRank === null && (stats.isGameOver || stats.isVictory)
+    && qualifiesForHighScore(entryFromStats(stats), highScores[stats.mode]);
+
+  if (gameState === 'highscores') {
+    return <HighScoresScreen tables={highScores} onBack={() => setGameState('menu')} />;
+  }
+
+  if (gameState === 'controls') {
+    return (
+      <ControlsScreen
+        bindingSets={bindingSets}
+        onChange={handleBindingsChange}
+        onBack={() => setGameState('menu')}
+      />
+    );
+  }
 
   if (gameState === 'menu') {
     return (
@@ -131,27 +302,168 @@ const App: React.FC = () => {
            </div>
 
            <div className="space-y-4">
+             {savedRun && (
+               <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setReplay(null);
+                    setContinueRun(savedRun);
+                    setPlayerCount(savedRun.players);
+                    setContinuedSettings({ difficulty: savedRun.difficulty, mode: savedRun.mode });
+                    setGameState('playing');
+                  }}
+                  className="w-full py-4 bg-green-500 text-black text-lg font-bold hover:bg-white hover:scale-105 active:scale-95 transition-all border-b-8 border-green-800"
+               >
+                 CONTINUE
+                 <span className="block text-[8px] uppercase tracking-widest mt-1">
+                   {DIFFICULTIES[savedRun.difficulty].label} · {MODE_INFO[savedRun.mode].phase} {savedRun.phase} · {savedRun.chaos} chaos{savedRun.players > 1 ? ' · Co-op' : ''}
+                 </span>
+               </button>
+             )}
              <button 
                 onClick={(e) => {
                   e.stopPropagation();
+                  setReplay(null);
+                  setContinueRun(null);
+                  setContinuedSettings(null);
+                  setPlayerCount(1);
                   setGameState('playing');
                 }}
                 className="w-full py-6 bg-yellow-400 text-black text-2xl font-bold hover:bg-white hover:scale-105 active:scale-95 transition-all border-b-8 border-yellow-700 shadow-[0_20px_0_rgba(0,0,0,0.2)]"
              >
                START GAME
              </button>
+             <button 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setReplay(null);
+                  setContinueRun(null);
+                  setContinuedSettings(null);
+                  setPlayerCount(2);
+                  setGameState('playing');
+                }}
+                className="w-full py-4 bg-orange-500 text-black text-lg font-bold hover:bg-white hover:scale-105 active:scale-95 transition-all border-b-8 border-orange-800"
+             >
+               2 PLAYER CO-OP
+             </button>
+             <div className="flex items-center gap-3 bg-slate-800 px-4 py-3 border-2 border-slate-700 rounded-lg">
+               <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest whitespace-nowrap">Seed</span>
+               <input
+                 type="text"
+                 value={seedText}
+                 placeholder="RANDOM"
+                 maxLength={16}
+                 onChange={(e) => setSeedText(e.target.value)}
+                 onClick={(e) => e.stopPropagation()}
+                 className="flex-1 bg-slate-950 border-2 border-slate-600 px-3 py-2 text-[10px] text-yellow-400 uppercase outline-none focus:border-yellow-400 placeholder:text-slate-600"
+               />
+             </div>
+             <div className="bg-slate-800 px-4 py-3 border-2 border-slate-700 rounded-lg space-y-2">
+               <div className="flex gap-2">
+                 {GAME_MODES.map(mode => (
+                   <button
+                      key={mode}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setGameMode(mode);
+                      }}
+                      className={`flex-1 py-2 text-[10px] font-bold uppercase border-b-4 transition-all ${gameMode === mode ? 'bg-orange-500 text-black border-orange-800' : 'bg-slate-950 text-slate-400 border-slate-900 hover:text-white'}`}
+                   >
+                     {MODE_INFO[mode].label}
+                   </button>
+                 ))}
+               </div>
+               <div className="flex gap-2">
+                 {DIFFICULTY_IDS.map(id => (
+                   <button
+                      key={id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDifficulty(id);
+                      }}
+                      className={`flex-1 py-2 text-[10px] font-bold uppercase border-b-4 transition-all ${difficulty === id ? 'bg-yellow-400 text-black border-yellow-700' : 'bg-slate-950 text-slate-400 border-slate-900 hover:text-white'}`}
+                   >
+                     {DIFFICULTIES[id].label}
+                   </button>
+                 ))}
+               </div>
+               <p className="text-[8px] text-slate-500 uppercase tracking-widest">
+                 {MODE_INFO[gameMode].blurb && `${MODE_INFO[gameMode].blurb} · `}{DIFFICULTIES[difficulty].description}
+               </p>
+             </div>
+             <div className="flex gap-4">
+               <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setGameState('highscores');
+                  }}
+                  className="flex-1 py-3 bg-slate-800 text-white text-xs font-bold uppercase tracking-widest hover:bg-slate-700 transition-all border-b-4 border-slate-950"
+               >
+                 HIGH SCORES
+               </button>
+               <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    replayInputRef.current?.click();
+                  }}
+                  className="flex-1 py-3 bg-slate-800 text-white text-xs font-bold uppercase tracking-widest hover:bg-slate-700 transition-all border-b-4 border-slate-950"
+               >
+                 WATCH REPLAY
+               </button>
+             </div>
+             <input
+               ref={replayInputRef}
+               type="file"
+               accept=".json,application/json"
+               onChange={handleReplayFile}
+               className="hidden"
+             />
+             {replayError && (
+               <p className="text-[10px] text-red-400 font-bold uppercase">{replayError}</p>
+             )}
              <div className="bg-slate-800 p-6 border-2 border-slate-700 rounded-lg text-left space-y-4 shadow-xl">
-                <h3 className="text-sm font-bold text-yellow-400 border-b border-slate-600 pb-2 uppercase">Arcade Manual</h3>
+                <div className="flex justify-between items-center border-b border-slate-600 pb-2">
+                  <h3 className="text-sm font-bold text-yellow-400 uppercase">Arcade Manual</h3>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setGameState('controls');
+                    }}
+                    className="text-[8px] font-bold uppercase tracking-widest px-2 py-1 border-2 border-slate-600 text-slate-400 hover:text-white hover:border-white transition-all"
+                  >
+                    Rebind
+                  </button>
+                </div>
+                {padConnected && (
+                  <div className="grid grid-cols-2 gap-4 text-[10px] leading-relaxed pb-4 border-b border-slate-700">
+                    <div className="col-span-2 text-[8px] text-green-400 font-bold uppercase tracking-widest">🎮 Gamepad Connected</div>
+                    <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">STICK / D-PAD</span> MOVE</div>
+                    <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{PAD_LABELS[GameAction.JAB]}</span> JAB</div>
+                    <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{PAD_LABELS[GameAction.STRAIGHT]}</span> STRAIGHT</div>
+                    <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{PAD_LABELS[GameAction.DODGE]}</span> DODGE</div>
+                    <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{PAD_LABELS[GameAction.GRAB]}</span> GRAB / THROW</div>
+                    <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{PAD_LABELS[GameAction.JUMP]}</span> JUMP</div>
+                    <div className="col-span-2 flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{PAD_LABELS[GameAction.GUARD]}</span> GUARD / PARRY</div>
+                    <div className="flex items-center gap-2 text-purple-400 font-bold"><span className="bg-purple-900 px-2 py-1 rounded text-white font-black">{PAD_LABELS[GameAction.SPECIAL]}</span> SPECIAL</div>
+                    <div className="flex items-center gap-2 text-yellow-400 font-bold"><span className="bg-slate-700 px-2 py-1 rounded text-white font-black">{PAD_LABELS[GameAction.PAUSE]}</span> PAUSE</div>
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-4 text-[10px] leading-relaxed">
-                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">WASD</span> MOVE</div>
-                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">J</span> JAB</div>
-                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">K</span> STRAIGHT</div>
-                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">L</span> DODGE</div>
+                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{moveLabel}</span> MOVE</div>
+                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{formatBinding(keyBindings, GameAction.JAB)}</span> JAB</div>
+                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{formatBinding(keyBindings, GameAction.STRAIGHT)}</span> STRAIGHT</div>
+                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{formatBinding(keyBindings, GameAction.DODGE)}</span> DODGE</div>
+                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{formatBinding(keyBindings, GameAction.GRAB)}</span> GRAB / THROW</div>
+                  <div className="flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{formatBinding(keyBindings, GameAction.JUMP)}</span> JUMP</div>
+                  <div className="col-span-2 flex items-center gap-2"><span className="bg-slate-700 px-2 py-1 rounded">{formatBinding(keyBindings, GameAction.GUARD)}</span> GUARD / PARRY</div>
                   <div className="col-span-1 text-purple-400 font-bold border-t border-slate-700 pt-2 flex items-center gap-2">
-                    <span className="bg-purple-900 px-2 py-1 rounded text-white font-black">E</span> SPECIAL
+                    <span className="bg-purple-900 px-2 py-1 rounded text-white font-black">{formatBinding(keyBindings, GameAction.SPECIAL)}</span> SPECIAL
                   </div>
                   <div className="col-span-1 text-yellow-400 font-bold border-t border-slate-700 pt-2 flex items-center gap-2">
-                    <span className="bg-slate-700 px-2 py-1 rounded text-white font-black">P</span> PAUSE
+                    <span className="bg-slate-700 px-2 py-1 rounded text-white font-black">{pauseLabel}</span> PAUSE
+                  </div>
+                  <div className="col-span-2 text-orange-400 font-bold border-t border-slate-700 pt-2 text-[8px] uppercase">
+                    P2 co-op: {[GameAction.MOVE_UP, GameAction.MOVE_LEFT, GameAction.MOVE_DOWN, GameAction.MOVE_RIGHT].map(action => formatKeyCode(bindingSets[1][action][0] ?? null)).join('')} move · {[GameAction.JAB, GameAction.STRAIGHT, GameAction.DODGE, GameAction.SPECIAL, GameAction.GRAB, GameAction.JUMP, GameAction.GUARD].map(action => formatKeyCode(bindingSets[1][action][0] ?? null)).join(' ')} attacks · or a 2nd pad
                   </div>
                 </div>
              </div>
@@ -197,14 +509,18 @@ const App: React.FC = () => {
   return (
     <div className="game-wrapper min-h-screen flex flex-col items-center justify-center p-4 bg-slate-900 text-white select-none">
       {/* HUD Header */}
-      <div className="w-full max-w-[800px] flex justify-between items-end mb-6 border-b-4 border-slate-700 pb-3">
+      <div className="w-full max-w-[800px] flex flex-wrap gap-3 justify-between items-end mb-4 sm:mb-6 border-b-4 border-slate-700 pb-3">
         <div className="flex flex-col">
           <h1 className="text-2xl font-black italic tracking-tighter text-yellow-400 drop-shadow-md">SUNSET BRAWLER</h1>
-          <div className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">Beach Level {stats.phase}</div>
+          <div className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">{stats.phaseName}</div>
+          <div className="text-[8px] text-slate-600 uppercase tracking-widest font-bold mt-1">
+            Seed {stats.seed} · {DIFFICULTIES[stats.difficulty].label}
+            {replay && <span className="ml-2 px-1 bg-red-600 text-white animate-pulse">REPLAY</span>}
+          </div>
         </div>
         
-        <div className="flex gap-3 items-center">
-           <div className="flex flex-col items-center bg-slate-800/50 px-3 py-1 rounded border border-slate-700">
+        <div className="flex flex-wrap gap-3 items-center">
+           <div className="hidden sm:flex flex-col items-center bg-slate-800/50 px-3 py-1 rounded border border-slate-700">
              <span className="text-[8px] text-slate-500 font-bold mb-1 uppercase tracking-tighter">Volume</span>
              <input 
                type="range" 
@@ -222,64 +538,91 @@ const App: React.FC = () => {
              {isMusicMuted ? '🔇' : '🎵'}
            </button>
 
+           {isTouchDevice() && (
+             <button 
+               onClick={() => setShowTouchControls(prev => !prev)}
+               title={showTouchControls ? 'Hide touch controls' : 'Show touch controls'}
+               className={`w-9 h-9 flex items-center justify-center border-b-4 active:border-b-0 active:translate-y-1 transition-all rounded ${showTouchControls ? 'bg-slate-700 border-slate-900 hover:bg-slate-600' : 'bg-slate-800 border-slate-950 opacity-50'}`}
+             >
+               🕹️
+             </button>
+           )}
+
            <button 
              onClick={togglePause}
              className={`px-4 h-9 flex items-center justify-center border-b-4 active:border-b-0 active:translate-y-1 transition-all font-black text-[10px] uppercase tracking-tighter rounded ${stats.isPaused ? 'bg-green-600 border-green-800 text-white shadow-[0_0_15px_rgba(34,197,94,0.3)]' : 'bg-yellow-400 border-yellow-700 text-black'}`}
            >
-             {stats.isPaused ? 'RESUME [P]' : 'PAUSE [P]'}
+             {stats.isPaused ? `RESUME [${pauseLabel}]` : `PAUSE [${pauseLabel}]`}
            </button>
 
            <div className="h-9 w-[2px] bg-slate-700 mx-1"></div>
 
            <div className="text-center min-w-[50px]">
-             <div className="text-[8px] text-slate-500 uppercase font-black">Phase</div>
-             <div className="text-lg text-purple-400 font-black leading-none">{stats.phase}/5</div>
-           </div>
-           <div className="text-center min-w-[50px]">
-             <div className="text-[8px] text-slate-500 uppercase font-black">Goal</div>
-             <div className="text-lg text-green-400 font-black leading-none">{stats.targetChaos}</div>
+             <div className="text-[8px] text-slate-500 uppercase font-black">{MODE_INFO[stats.mode].phase}</div>
+             <div className="text-lg text-purple-400 font-black leading-none">{stats.phaseCount ? `${stats.phase}/${stats.phaseCount}` : stats.phase}</div>
            </div>
+           {stats.mode === 'bossRush' ? (
+             <div className="text-center min-w-[50px]">
+               <div className="text-[8px] text-slate-500 uppercase font-black">Time</div>
+               <div className="text-lg text-green-400 font-black leading-none">{formatPlayTime(Math.floor(stats.ticks / TICKS_PER_SECOND))}</div>
+             </div>
+           ) : (
+             <div className="text-center min-w-[50px]">
+               <div className="text-[8px] text-slate-500 uppercase font-black">Goal</div>
+               <div className="text-lg text-green-400 font-black leading-none">{stats.targetChaos}</div>
+             </div>
+           )}
         </div>
       </div>
 
-      <div className="relative">
-        <div className="border-8 border-slate-800 rounded shadow-2xl overflow-hidden bg-black ring-4 ring-slate-900">
+      <div className="relative w-full max-w-[800px]">
+        <div className="border-4 sm:border-8 border-slate-800 rounded shadow-2xl overflow-hidden bg-black ring-4 ring-slate-900">
           <canvas
             ref={canvasRef}
             width={800}
             height={600}
             tabIndex={0}
-            className="outline-none block cursor-none"
+            className="outline-none block cursor-none w-full h-auto touch-none"
           />
         </div>
 
-        {stats.isBossActive && (
-          <div className="absolute top-10 left-1/2 -translate-x-1/2 px-12 py-3 bg-red-600 border-4 border-yellow-400 animate-bounce shadow-[0_10px_30px_rgba(239,68,68,0.5)] z-20">
-            <span className="text-2xl font-black italic text-white drop-shadow-lg tracking-tighter">BOSS FIGHT!</span>
+        {stats.boss && (
+          <div className="absolute top-4 left-24 right-24 z-20">
+            <BossHealthBar key={stats.boss.name} boss={stats.boss} />
           </div>
         )}
 
-        {stats.specialUnlocked && (
-          <div className="absolute top-4 left-4 flex flex-col items-center z-30">
-             <div className={`w-16 h-16 border-4 flex items-center justify-center rounded-lg bg-slate-900/90 ${stats.specialCooldown === 0 ? 'border-purple-500 animate-pulse shadow-[0_0_15px_rgba(168,85,247,0.5)]' : 'border-slate-700 opacity-40'}`}>
-                <span className="text-4xl font-black text-purple-400">E</span>
+        {stats.specialUnlocked && stats.players.map((p, slot) => (
+          <div key={slot} className={`absolute top-4 ${slot === 0 ? 'left-4' : 'right-4'} flex flex-col items-center z-30`}>
+             <div className={`w-16 h-16 border-4 flex items-center justify-center rounded-lg bg-slate-900/90 ${p.specialCooldown === 0 && !p.isDown ? 'border-purple-500 animate-pulse shadow-[0_0_15px_rgba(168,85,247,0.5)]' : 'border-slate-700 opacity-40'}`}>
+                <span className="text-4xl font-black text-purple-400">{formatKeyCode(bindingSets[slot]?.[GameAction.SPECIAL][0] ?? null)}</span>
              </div>
              <div className="w-16 h-3 bg-slate-800 mt-2 border-2 border-slate-700 rounded-full overflow-hidden">
                 <div 
                   className="h-full bg-purple-500 transition-all duration-100" 
-                  style={{ width: `${(1 - stats.specialCooldown) * 100}%` }}
+                  style={{ width: `${(1 - p.specialCooldown) * 100}%` }}
                 />
              </div>
-             <span className={`text-[8px] mt-1 font-bold ${stats.specialCooldown === 0 ? 'text-purple-400 animate-bounce' : 'text-slate-500'}`}>READY</span>
+             <span className={`text-[8px] mt-1 font-bold ${p.specialCooldown === 0 ? 'text-purple-400 animate-bounce' : 'text-slate-500'}`}>
+               {stats.players.length > 1 ? `P${slot + 1} ` : ''}READY
+             </span>
           </div>
-        )}
+        ))}
+
+        {stats.players.map((p, slot) => p.combo >= 2 && (
+          <div key={slot} className={`absolute ${stats.specialUnlocked ? 'top-28' : stats.boss ? 'top-16' : 'top-4'} ${slot === 0 ? 'left-4' : 'right-4'} flex flex-col ${slot === 0 ? 'items-start' : 'items-end'} z-30 pointer-events-none`}>
+            <span className="text-2xl sm:text-3xl font-black italic text-yellow-400 drop-shadow-[0_2px_0_rgba(0,0,0,0.8)]">{p.combo} HITS</span>
+            <span className="text-[8px] font-bold text-orange-400 uppercase tracking-widest">{stats.players.length > 1 ? `P${slot + 1} ` : ''}Combo</span>
+          </div>
+        ))}
 
         {/* Pause Overlay */}
-        {stats.isPaused && !stats.isVictory && stats.hp > 0 && (
-          <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm flex flex-col items-center justify-center z-40 p-10 text-center animate-in fade-in zoom-in duration-200">
-            <h2 className="text-6xl text-yellow-400 font-black mb-8 tracking-tighter italic drop-shadow-[0_0_20px_rgba(251,191,36,0.3)] uppercase">Paused</h2>
+        {stats.isPaused && !stats.isVictory && !stats.isGameOver && (
+          <div data-pad-scope className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm flex flex-col items-center justify-center z-40 p-4 sm:p-10 overflow-y-auto text-center animate-in fade-in zoom-in duration-200">
+            <h2 className="text-4xl sm:text-6xl text-yellow-400 font-black mb-8 tracking-tighter italic drop-shadow-[0_0_20px_rgba(251,191,36,0.3)] uppercase">Paused</h2>
             <div className="flex flex-col gap-4 w-full max-w-xs">
               <button 
+                data-pad-back
                 onClick={togglePause}
                 className="w-full py-6 bg-yellow-400 text-black font-black text-2xl hover:bg-white transition-all transform hover:scale-105 active:scale-95 border-b-8 border-r-8 border-yellow-700"
               >
@@ -302,15 +645,30 @@ const App: React.FC = () => {
         )}
 
         {/* KO Overlay */}
-        {stats.hp <= 0 && (
-          <div className="absolute inset-0 bg-red-950/95 backdrop-blur-md flex flex-col items-center justify-center z-50 p-10 text-center animate-in fade-in duration-500">
-            <h2 className="text-8xl text-white font-black mb-4 tracking-tighter italic animate-pulse drop-shadow-[0_0_20px_rgba(255,0,0,0.5)]">KO!</h2>
+        {stats.isGameOver && (
+          <div data-pad-scope className="absolute inset-0 bg-red-950/95 backdrop-blur-md flex flex-col items-center justify-center z-50 p-4 sm:p-10 overflow-y-auto text-center animate-in fade-in duration-500">
+            <h2 className="text-5xl sm:text-8xl text-white font-black mb-4 tracking-tighter italic animate-pulse drop-shadow-[0_0_20px_rgba(255,0,0,0.5)]">KO!</h2>
             <div className="mb-8 space-y-6">
               <p className="text-2xl text-yellow-400 font-bold uppercase tracking-widest italic">Game Over</p>
-              <div className="bg-black/60 p-6 border-4 border-slate-700 rounded-lg shadow-2xl">
-                <p className="text-[10px] text-slate-400 mb-2 uppercase tracking-widest font-bold">Chaos Score</p>
-                <p className="text-5xl font-black text-white">{stats.chaos.toString().padStart(6, '0')}</p>
-              </div>
+              {canEnterScore ? (
+                <InitialsEntry score={stats.chaos} onSubmit={handleScoreSubmit} />
+              ) : (
+                <div className="bg-black/60 p-6 border-4 border-slate-700 rounded-lg shadow-2xl">
+                  <p className="text-[10px] text-slate-400 mb-2 uppercase tracking-widest font-bold">Chaos Score</p>
+                  <p className="text-5xl font-black text-white">{stats.chaos.toString().padStart(6, '0')}</p>
+                  {stats.mode === 'endless' && (
+                    <p className="text-[10px] text-orange-400 mt-3 uppercase tracking-widest font-bold">Survived {wavesSurvived(stats)} waves</p>
+                  )}
+                  {stats.mode === 'bossRush' && (
+                    <p className="text-[10px] text-orange-400 mt-3 uppercase tracking-widest font-bold">{bossesDefeated({ phase: stats.phase, victory: stats.isVictory })} of {stats.phaseCount} bosses down</p>
+                  )}
+                  {scoreRank !== null && scoreRank >= 0 && (
+                    <p className="text-[10px] text-yellow-400 mt-3 uppercase tracking-widest font-bold">#{scoreRank + 1} on the board</p>
+                  )}
+                  <p className="text-[8px] text-slate-500 mt-3 uppercase tracking-widest font-bold">Seed {stats.seed}</p>
+                </div>
+              )}
+              {runSummary && <RunSummary stats={runSummary} showSplits={stats.mode === 'bossRush'} />}
             </div>
             <div className="flex flex-col gap-4 w-full max-w-xs">
               <button 
@@ -319,6 +677,12 @@ const App: React.FC = () => {
               >
                 INSERT COIN
               </button>
+              <button 
+                onClick={handleDownloadReplay}
+                className="w-full py-3 bg-slate-900 text-yellow-400 font-bold text-xs uppercase tracking-widest hover:bg-slate-800 transition-all border-b-4 border-slate-950"
+              >
+                DOWNLOAD REPLAY
+              </button>
               <button 
                 onClick={handleReturnToMenu}
                 className="w-full py-4 bg-slate-800 text-white font-bold text-lg hover:bg-slate-700 transition-all border-b-4 border-slate-950"
@@ -331,14 +695,25 @@ const App: React.FC = () => {
 
         {/* Victory Overlay */}
         {stats.isVictory && (
-          <div className="absolute inset-0 bg-yellow-500/90 backdrop-blur-md flex flex-col items-center justify-center z-50 p-10 text-center animate-in fade-in duration-500">
-            <h2 className="text-6xl text-black font-black mb-4 tracking-tighter italic animate-bounce drop-shadow-[0_0_20px_rgba(255,255,255,0.8)] uppercase">Victory!</h2>
+          <div data-pad-scope className="absolute inset-0 bg-yellow-500/90 backdrop-blur-md flex flex-col items-center justify-center z-50 p-4 sm:p-10 overflow-y-auto text-center animate-in fade-in duration-500">
+            <h2 className="text-4xl sm:text-6xl text-black font-black mb-4 tracking-tighter italic animate-bounce drop-shadow-[0_0_20px_rgba(255,255,255,0.8)] uppercase">Victory!</h2>
             <div className="mb-8 space-y-6">
-              <p className="text-2xl text-slate-900 font-bold uppercase tracking-widest italic">Beach Mastered</p>
-              <div className="bg-white/30 p-6 border-4 border-black rounded-lg shadow-2xl">
-                <p className="text-[10px] text-slate-900 mb-2 uppercase tracking-widest font-bold">Final Score</p>
-                <p className="text-5xl font-black text-black">{stats.chaos.toString().padStart(6, '0')}</p>
-              </div>
+              <p className="text-2xl text-slate-900 font-bold uppercase tracking-widest italic">
+                {stats.mode === 'bossRush' ? `Rush Cleared in ${formatPlayTime(Math.floor(stats.ticks / TICKS_PER_SECOND))}` : 'Beach Mastered'}
+              </p>
+              {canEnterScore ? (
+                <InitialsEntry score={stats.chaos} onSubmit={handleScoreSubmit} />
+              ) : (
+                <div className="bg-white/30 p-6 border-4 border-black rounded-lg shadow-2xl">
+                  <p className="text-[10px] text-slate-900 mb-2 uppercase tracking-widest font-bold">Final Score</p>
+                  <p className="text-5xl font-black text-black">{stats.chaos.toString().padStart(6, '0')}</p>
+                  {scoreRank !== null && scoreRank >= 0 && (
+                    <p className="text-[10px] text-red-700 mt-3 uppercase tracking-widest font-bold">#{scoreRank + 1} on the board</p>
+                  )}
+                  <p className="text-[8px] text-slate-800 mt-3 uppercase tracking-widest font-bold">Seed {stats.seed}</p>
+                </div>
+              )}
+              {runSummary && <RunSummary stats={runSummary} showSplits={stats.mode === 'bossRush'} />}
             </div>
             <div className="flex flex-col gap-4 w-full max-w-xs">
               <button 
@@ -347,6 +722,12 @@ const App: React.FC = () => {
               >
                 PLAY AGAIN
               </button>
+              <button 
+                onClick={handleDownloadReplay}
+                className="w-full py-3 bg-white/40 text-black font-bold text-xs uppercase tracking-widest hover:bg-white/60 transition-all border-b-4 border-black"
+              >
+                DOWNLOAD REPLAY
+              </button>
               <button 
                 onClick={handleReturnToMenu}
                 className="w-full py-4 bg-slate-800 text-white font-bold text-lg hover:bg-slate-700 transition-all border-b-4 border-slate-950"
@@ -359,26 +740,50 @@ const App: React.FC = () => {
       </div>
 
       {/* Main HUD Bottom */}
-      <div className="w-full max-w-[800px] mt-8 grid grid-cols-3 gap-6 p-6 bg-slate-800 border-b-8 border-r-8 border-black rounded-lg shadow-2xl">
+      <div className="w-full max-w-[800px] mt-4 sm:mt-8 grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-6 p-4 sm:p-6 bg-slate-800 border-b-8 border-r-8 border-black rounded-lg shadow-2xl">
         <div className="col-span-1 space-y-2">
-          <div className="flex justify-between text-[10px] font-bold text-slate-300">
-            <span className="tracking-widest uppercase">Player Health</span>
-            <span>{Math.max(0, Math.floor(stats.hp))}%</span>
-          </div>
-          <div className="h-8 w-full bg-slate-950 border-4 border-slate-700 p-1 rounded shadow-inner">
-            <div 
-              className={`h-full transition-all duration-300 rounded-sm ${hpPercentage < 35 ? 'bg-red-500 shadow-[0_0_15px_rgba(239,68,68,0.5)]' : 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.5)]'}`}
-              style={{ width: `${hpPercentage}%` }}
-            />
-          </div>
+          {stats.players.map((p, slot) => {
+            const hpPercentage = Math.max(0, (p.hp / p.maxHp) * 100);
+            const compact = stats.players.length > 1;
+            return (
+              <div key={slot} className="space-y-1">
+                <div className="flex justify-between text-[10px] font-bold text-slate-300">
+                  <span className={`tracking-widest uppercase ${slot === 1 ? 'text-orange-400' : ''}`}>{compact ? `P${slot + 1} Health` : 'Player Health'}</span>
+                  <span>{p.isDown ? (compact ? 'DOWN!' : '0%') : `${Math.max(0, Math.floor(p.hp))}%`}</span>
+                </div>
+                <div className={`${compact ? 'h-5 border-2' : 'h-8 border-4'} w-full bg-slate-950 border-slate-700 p-1 rounded shadow-inner`}>
+                  {p.isDown && compact ? (
+                    // Revive meter replaces the empty health bar while a partner helps
+                    <div className="h-full bg-yellow-400 rounded-sm animate-pulse" style={{ width: `${p.reviveProgress * 100}%` }} />
+                  ) : (
+                    <div 
+                      className={`h-full transition-all duration-300 rounded-sm ${hpPercentage < 35 ? 'bg-red-500 shadow-[0_0_15px_rgba(239,68,68,0.5)]' : 'bg-green-500 shadow-[0_0_15px_rgba(34,197,94,0.5)]'}`}
+                      style={{ width: `${hpPercentage}%` }}
+                    />
+                  )}
+                </div>
+                {!p.isDown && (
+                  <div className="h-1.5 w-full bg-slate-950 rounded-sm overflow-hidden" title="Guard">
+                    <div className={`h-full rounded-sm ${p.guard < 0.25 ? 'bg-red-400 animate-pulse' : 'bg-sky-400'}`} style={{ width: `${p.guard * 100}%` }} />
+                  </div>
+                )}
+                {p.buffs.length > 0 && (
+                  <div className="flex gap-1">
+                    {p.buffs.map(buff => <BuffIndicator key={buff.kind} buff={buff} />)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         <div className="col-span-1 flex flex-col items-center justify-center bg-slate-900/50 rounded-lg p-2 border border-slate-700 shadow-xl">
            <div className="text-[10px] text-slate-500 font-black uppercase tracking-widest mb-1">Chaos Points</div>
            <div className="text-4xl text-yellow-400 font-black tracking-tighter drop-shadow-[0_4px_4px_rgba(0,0,0,0.5)]">{stats.chaos.toString().padStart(6, '0')}</div>
+           {stats.chaosBoost && <BuffIndicator buff={stats.chaosBoost} />}
         </div>
 
-        <div className="col-span-1 flex items-center justify-end gap-6">
+        <div className="col-span-1 flex items-center justify-center sm:justify-end gap-6">
            <div className="text-right">
              <div className="text-[10px] text-slate-500 font-black uppercase tracking-tighter">Streak</div>
              <div className="text-3xl text-blue-400 font-black italic">{stats.streak}</div>
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { BossStats } from '../types';
+
+interface BossHealthBarProps {
+  boss: BossStats;
+}
+
+/**
+ * SECTION: BOSS HEALTH BAR
+ * Summary: Full-width HUD bar for the boss on screen. The name plate shows the
+ * boss and its current stage; ticks mark the HP where later stages begin. A
+ * pale trail sits behind the red fill and drains after a short delay, so each
+ * hit leaves a visible chunk before it catches up. Remount it (key by name)
+ * when a new boss arrives so the trail starts full.
+ */
+const BossHealthBar: React.FC<BossHealthBarProps> = ({ boss }) => {
+  const percent = Math.max(0, Math.min(100, (boss.hp / boss.maxHp) * 100));
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-end justify-between">
+        <div className="flex items-center gap-2">
+          <span className="px-2 py-0.5 bg-red-600 border-2 border-yellow-400 text-[10px] font-black italic text-white tracking-tighter">BOSS</span>
+          <span className="text-sm font-black italic text-white drop-shadow-lg tracking-tight">{boss.name}</span>
+        </div>
+        <span className="text-[9px] font-bold uppercase text-orange-400 tracking-widest">{boss.stage}</span>
+      </div>
+      <div className="relative h-4 bg-slate-900/90 border-2 border-slate-700 overflow-hidden">
+        <div
+          className="absolute inset-y-0 left-0 bg-yellow-200 transition-[width] duration-700 delay-300 ease-out"
+          style={{ width: `${percent}%` }}
+        />
+        <div
+          className="absolute inset-y-0 left-0 bg-gradient-to-r from-red-700 to-red-500 transition-[width] duration-100"
+          style={{ width: `${percent}%` }}
+        />
+        {boss.stageMarkers.map(marker => (
+          <div
+            key={marker}
+            className={`absolute inset-y-0 w-0.5 ${percent > marker * 100 ? 'bg-white/80' : 'bg-slate-950/60'}`}
+            style={{ left: `${marker * 100}%` }}
+          />
+        ))}
+        <span className="absolute inset-0 flex items-center justify-center text-[8px] font-bold text-white drop-shadow">
+          {Math.ceil(boss.hp)} / {boss.maxHp}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default BossHealthBar;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { PICKUP_TYPES } from '../game/Pickups';
+import type { BuffStats } from '../types';
+
+interface BuffIndicatorProps {
+  buff: BuffStats;
+}
+
+/**
+ * SECTION: BUFF INDICATOR
+ * Summary: HUD badge for a running pickup effect: the item's glyph and name
+ * over a bar that drains with the time left, blinking near the end.
+ */
+const BuffIndicator: React.FC<BuffIndicatorProps> = ({ buff }) => {
+  const type = PICKUP_TYPES[buff.kind];
+  return (
+    <div className={`w-16 bg-slate-950 border-2 rounded px-1 py-0.5 ${buff.remaining < 0.25 ? 'animate-pulse' : ''}`} style={{ borderColor: type.color }}>
+      <div className="flex justify-between text-[7px] font-black uppercase text-white">
+        <span style={{ color: type.color }}>{type.icon}</span>
+        <span className="truncate ml-1">{type.label}</span>
+      </div>
+      <div className="h-1 mt-0.5 bg-slate-800 rounded-sm overflow-hidden">
+        <div className="h-full" style={{ width: `${buff.remaining * 100}%`, backgroundColor: type.color }} />
+      </div>
+    </div>
+  );
+};
+
+export default BuffIndicator;
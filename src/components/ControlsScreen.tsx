@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { GameAction } from '../types';
+import {
+  ACTION_LABELS, BINDING_SLOTS, DEFAULT_BINDING_SETS, type KeyBindings,
+  cloneBindings, findActionForKey, formatKeyCode, rebindKey
+} from '../game/InputBindings';
+
+interface ControlsScreenProps {
+  /** One binding set per player slot */
+  bindingSets: KeyBindings[];
+  onChange: (slot: number, bindings: KeyBindings) => void;
+  onBack: () => void;
+}
+
+/**
+ * SECTION: CONTROLS SCREEN
+ * Summary: Menu page for rebinding every GameAction. Clicking a slot waits for
+ * the next key press (ESC cancels); keys already used elsewhere are swapped and
+ * the conflict is reported so no key ever triggers two actions.
+ * Player 2's keys (co-op) live on a second tab; a key used by both players is
+ * flagged, since Player 2 takes it over in co-op.
+ */
+const ControlsScreen: React.FC<ControlsScreenProps> = ({ bindingSets, onChange, onBack }) => {
+  const [player, setPlayer] = useState(0);
+  const [listening, setListening] = useState<{ action: GameAction; slot: number } | null>(null);
+  const [notice, setNotice] = useState('');
+  const bindings = bindingSets[player];
+  const otherBindings = bindingSets[1 - player];
+
+  useEffect(() => {
+    if (!listening) return;
+    const captureKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code === 'Escape') {
+        setListening(null);
+        return;
+      }
+      const { bindings: next, conflict } = rebindKey(bindings, listening.action, listening.slot, e.code);
+      const sharedWith = otherBindings ? findActionForKey(otherBindings, e.code) : null;
+      if (conflict) {
+        setNotice(`${formatKeyCode(e.code)} was used by ${ACTION_LABELS[conflict]} - keys swapped`);
+      } else if (sharedWith) {
+        setNotice(`${formatKeyCode(e.code)} is also P${2 - player} ${ACTION_LABELS[sharedWith]} - P2 gets it in co-op`);
+      } else {
+        setNotice('');
+      }
+      onChange(player, next);
+      setListening(null);
+    };
+    window.addEventListener('keydown', captureKey, { capture: true });
+    return () => window.removeEventListener('keydown', captureKey, { capture: true });
+  }, [listening, bindings, otherBindings, player, onChange]);
+
+  // Pause is shared, so Player 2 may leave it unbound
+  const unbound = (Object.values(GameAction) as GameAction[])
+    .filter(action => bindings[action].every(code => !code))
+    .filter(action => action !== GameAction.PAUSE || player === 0);
+
+  return (
+    <div className="game-wrapper min-h-screen flex flex-col items-center justify-center bg-slate-900 text-white p-4">
+      <div className="max-w-xl w-full space-y-6 animate-in fade-in zoom-in duration-300">
+        <h2 className="text-4xl font-black italic tracking-tighter text-yellow-400 text-center drop-shadow-[0_10px_10px_rgba(0,0,0,0.5)] uppercase">Controls</h2>
+
+        <div className="flex gap-2">
+          {bindingSets.map((_, slot) => (
+            <button
+              key={slot}
+              onClick={() => {
+                setPlayer(slot);
+                setListening(null);
+                setNotice('');
+              }}
+              className={`flex-1 py-2 text-xs font-black uppercase border-b-4 transition-all ${player === slot ? 'bg-yellow-400 text-black border-yellow-700' : 'bg-slate-800 text-slate-400 border-slate-950 hover:text-white'}`}
+            >
+              Player {slot + 1}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-slate-800 p-6 border-2 border-slate-700 rounded-lg space-y-2 shadow-xl">
+          {(Object.values(GameAction) as GameAction[]).map(action => (
+            <div key={action} className="grid grid-cols-3 gap-3 items-center text-[10px]">
+              <span className="font-bold uppercase text-slate-300">{ACTION_LABELS[action]}</span>
+              {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                const isListening = listening?.action === action && listening.slot === slot;
+                return (
+                  <button
+                    key={slot}
+                    onClick={() => setListening({ action, slot })}
+                    className={`py-2 border-2 rounded font-black uppercase transition-all ${isListening ? 'border-yellow-400 bg-yellow-400 text-black animate-pulse' : 'border-slate-600 bg-slate-900 hover:border-white'}`}
+                  >
+                    {isListening ? 'PRESS KEY' : formatKeyCode(bindings[action][slot] ?? null)}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {notice && <p className="text-[10px] text-yellow-400 font-bold uppercase text-center">{notice}</p>}
+        {unbound.length > 0 && (
+          <p className="text-[10px] text-red-400 font-bold uppercase text-center">
+            Unbound: {unbound.map(action => ACTION_LABELS[action]).join(', ')}
+          </p>
+        )}
+
+        <div className="flex gap-4">
+          <button
+            onClick={() => {
+              setNotice('');
+              onChange(player, cloneBindings(DEFAULT_BINDING_SETS[player]));
+            }}
+            className="flex-1 py-4 bg-slate-800 text-white font-bold text-xs uppercase hover:bg-slate-700 transition-all border-b-4 border-slate-950"
+          >
+            Reset Defaults
+          </button>
+          <button
+            data-pad-back
+            onClick={onBack}
+            className="flex-1 py-4 bg-yellow-400 text-black font-black text-xs uppercase hover:bg-white transition-all border-b-4 border-yellow-700"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsScreen;
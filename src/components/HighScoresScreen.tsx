@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { DIFFICULTIES } from '../game/Difficulty';
+import { HIGH_SCORE_LIMIT, type HighScoreEntry, bossesDefeated, formatPlayTime, highScoresToCsv, wavesSurvived } from '../game/HighScores';
+import { GAME_MODES, type GameMode } from '../types';
+
+interface HighScoresScreenProps {
+  tables: Record<GameMode, HighScoreEntry[]>;
+  onBack: () => void;
+}
+
+// Per mode: tab label, how far a run got, the ranking note and the CSV file name
+const TABLES: Record<GameMode, { label: string; progress: string; value: (e: HighScoreEntry) => string | number; legend: string; file: string }> = {
+  campaign: {
+    label: 'Campaign', progress: 'Phase', value: e => e.victory ? '★' : e.phase,
+    legend: '★ cleared the beach', file: 'sunset-brawler-highscores.csv',
+  },
+  endless: {
+    label: 'Endless', progress: 'Waves', value: wavesSurvived,
+    legend: 'Waves survived, then chaos', file: 'sunset-brawler-endless-scores.csv',
+  },
+  bossRush: {
+    label: 'Boss Rush', progress: 'Bosses', value: bossesDefeated,
+    legend: 'Bosses defeated, then fastest time', file: 'sunset-brawler-boss-rush-times.csv',
+  },
+};
+
+/**
+ * SECTION: HIGH SCORES SCREEN
+ * Summary: Menu page listing the local top scores with the stats each run
+ * reached, one tab per game mode. EXPORT CSV downloads the shown table for
+ * spreadsheets.
+ */
+const HighScoresScreen: React.FC<HighScoresScreenProps> = ({ tables, onBack }) => {
+  const [mode, setMode] = useState<GameMode>('campaign');
+  const scores = tables[mode];
+  const table = TABLES[mode];
+
+  const exportCsv = () => {
+    const blob = new Blob([highScoresToCsv(scores, mode)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = table.file;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="game-wrapper min-h-screen flex flex-col items-center justify-center bg-slate-900 text-white p-4">
+      <div className="max-w-2xl w-full space-y-6 animate-in fade-in zoom-in duration-300">
+        <h2 className="text-4xl font-black italic tracking-tighter text-yellow-400 text-center drop-shadow-[0_10px_10px_rgba(0,0,0,0.5)] uppercase">High Scores</h2>
+
+        <div className="flex gap-2">
+          {GAME_MODES.map(id => (
+            <button
+              key={id}
+              onClick={() => setMode(id)}
+              className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border-b-4 transition-all ${mode === id ? 'bg-yellow-400 text-black border-yellow-700' : 'bg-slate-800 text-slate-400 border-slate-950 hover:text-white'}`}
+            >
+              {TABLES[id].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-slate-800 p-6 border-2 border-slate-700 rounded-lg shadow-xl overflow-x-auto">
+          {scores.length === 0 ? (
+            <p className="text-[10px] text-slate-400 font-bold uppercase text-center py-8">No scores yet. Go cause some chaos!</p>
+          ) : (
+            <table className="w-full text-[10px] text-left">
+              <thead>
+                <tr className="text-slate-400 uppercase tracking-widest border-b border-slate-600">
+                  <th className="py-2 pr-2">#</th>
+                  <th className="py-2 pr-2">Name</th>
+                  <th className="py-2 pr-2 text-right">Score</th>
+                  <th className="py-2 pr-2">Level</th>
+                  <th className="py-2 pr-2 text-right">{table.progress}</th>
+                  <th className="py-2 pr-2 text-right">Streak</th>
+                  <th className="py-2 pr-2 text-right">Mult</th>
+                  <th className="py-2 pr-2 text-right">Time</th>
+                  <th className="py-2 text-right">Date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scores.map((entry, i) => (
+                  <tr key={`${entry.date}-${i}`} className={`border-b border-slate-700/50 ${i === 0 ? 'text-yellow-400' : 'text-slate-200'}`}>
+                    <td className="py-2 pr-2 font-black">{i + 1}</td>
+                    <td className="py-2 pr-2 font-black tracking-widest">
+                      {entry.initials}
+                      {entry.players > 1 && <span className="ml-1 text-[8px] text-orange-400">CO-OP</span>}
+                    </td>
+                    <td className="py-2 pr-2 text-right font-black">{entry.score.toString().padStart(6, '0')}</td>
+                    <td className="py-2 pr-2 uppercase text-slate-400">{DIFFICULTIES[entry.difficulty].label}</td>
+                    <td className="py-2 pr-2 text-right">{table.value(entry)}</td>
+                    <td className="py-2 pr-2 text-right">{entry.maxStreak}</td>
+                    <td className="py-2 pr-2 text-right">x{entry.maxMultiplier}</td>
+                    <td className="py-2 pr-2 text-right">{formatPlayTime(entry.seconds)}</td>
+                    <td className="py-2 text-right text-slate-400">{new Date(entry.date).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-[8px] text-slate-500 uppercase tracking-widest mt-4">Top {HIGH_SCORE_LIMIT} · {table.legend}</p>
+        </div>
+
+        <div className="flex gap-4">
+          <button
+            onClick={exportCsv}
+            disabled={scores.length === 0}
+            className="flex-1 py-4 bg-slate-800 text-white font-bold text-xs uppercase hover:bg-slate-700 transition-all border-b-4 border-slate-950 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+          <button
+            data-pad-back
+            onClick={onBack}
+            className="flex-1 py-4 bg-yellow-400 text-black font-black text-xs uppercase hover:bg-white transition-all border-b-4 border-yellow-700"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HighScoresScreen;
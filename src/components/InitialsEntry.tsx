@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { INITIALS_LENGTH } from '../game/HighScores';
+
+interface InitialsEntryProps {
+  score: number;
+  onSubmit: (initials: string) => void;
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * SECTION: INITIALS ENTRY
+ * Summary: Arcade three-letter name entry for a new high score. Typing a
+ * letter fills the selected slot and moves on; arrows cycle and move, ENTER
+ * saves. The ▲/▼ buttons cover touch screens and gamepads.
+ */
+const InitialsEntry: React.FC<InitialsEntryProps> = ({ score, onSubmit }) => {
+  const [letters, setLetters] = useState<number[]>(() => Array(INITIALS_LENGTH).fill(0));
+  const [cursor, setCursor] = useState(0);
+
+  const cycle = (slot: number, step: number) => {
+    setLetters(prev => prev.map((l, i) => i === slot ? (l + step + LETTERS.length) % LETTERS.length : l));
+    setCursor(slot);
+  };
+
+  const submit = () => onSubmit(letters.map(l => LETTERS[l]).join(''));
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const letter = LETTERS.indexOf(e.key.toUpperCase());
+      if (e.key.length === 1 && letter >= 0) {
+        setLetters(prev => prev.map((l, i) => i === cursor ? letter : l));
+        setCursor(c => Math.min(INITIALS_LENGTH - 1, c + 1));
+      } else if (e.key === 'ArrowUp') {
+        cycle(cursor, 1);
+      } else if (e.key === 'ArrowDown') {
+        cycle(cursor, -1);
+      } else if (e.key === 'ArrowLeft' || e.key === 'Backspace') {
+        setCursor(c => Math.max(0, c - 1));
+      } else if (e.key === 'ArrowRight') {
+        setCursor(c => Math.min(INITIALS_LENGTH - 1, c + 1));
+      } else if (e.key === 'Enter') {
+        submit();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [cursor, letters]);
+
+  return (
+    <div className="bg-black/60 p-6 border-4 border-yellow-400 rounded-lg shadow-2xl space-y-4">
+      <p className="text-[10px] text-yellow-400 uppercase tracking-widest font-bold animate-pulse">New High Score!</p>
+      <p className="text-4xl font-black text-white">{score.toString().padStart(6, '0')}</p>
+      <div className="flex justify-center gap-3">
+        {letters.map((l, slot) => (
+          <div key={slot} className="flex flex-col items-center gap-1">
+            <button onClick={() => cycle(slot, 1)} className="text-xs text-slate-400 hover:text-white px-2">▲</button>
+            <button
+              onClick={() => setCursor(slot)}
+              className={`w-12 h-14 text-3xl font-black border-b-4 ${cursor === slot ? 'text-yellow-400 border-yellow-400' : 'text-white border-slate-600'}`}
+            >
+              {LETTERS[l]}
+            </button>
+            <button onClick={() => cycle(slot, -1)} className="text-xs text-slate-400 hover:text-white px-2">▼</button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={submit}
+        className="w-full py-3 bg-yellow-400 text-black font-black text-sm uppercase tracking-widest hover:bg-white transition-all border-b-4 border-yellow-700"
+      >
+        Enter
+      </button>
+    </div>
+  );
+};
+
+export default InitialsEntry;
@@ -0,0 +1,90 @@
+import React from 'react';
+import type { RunStats } from '../game/RunStats';
+import { formatPlayTime } from '../game/HighScores';
+import { TICKS_PER_SECOND } from '../types';
+
+interface RunSummaryProps {
+  stats: RunStats;
+  /** Boss rush: show each kill's split (run time) next to the fight time */
+  showSplits?: boolean;
+}
+
+const time = (ticks: number) => formatPlayTime(Math.floor(ticks / TICKS_PER_SECOND));
+
+/**
+ * SECTION: RUN SUMMARY
+ * Summary: Results panel for the KO and Victory screens: run totals, boss
+ * kill times and a per-phase breakdown, so players can see where the run
+ * went right or wrong.
+ */
+const RunSummary: React.FC<RunSummaryProps> = ({ stats, showSplits = false }) => {
+  const totals: [string, string | number][] = [
+    ['Time', time(stats.ticks)],
+    ['Kills', stats.kills],
+    ['Props Wrecked', stats.propsWrecked],
+    ['Parries', stats.parries],
+    ['Damage Dealt', Math.round(stats.damageDealt)],
+    ['Damage Taken', Math.round(stats.damageTaken)],
+    ['Hits Landed', stats.hitsLanded],
+    ['Whiffs', stats.swingsWhiffed],
+    ['Enemy Dodges', stats.enemyDodges],
+    ['Your Dodges', stats.playerDodges],
+    ['Specials', `${stats.specialsFired} (${stats.specialCatches} caught)`],
+    ['Best Streak', stats.maxStreak],
+  ];
+
+  return (
+    <div className="bg-black/60 p-4 border-4 border-slate-700 rounded-lg shadow-2xl text-left text-white space-y-4 w-full max-w-md mx-auto">
+      <p className="text-[10px] text-yellow-400 uppercase tracking-widest font-bold text-center">Run Results</p>
+      <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-[9px]">
+        {totals.map(([label, value]) => (
+          <div key={label} className="flex justify-between border-b border-slate-700/60 py-1">
+            <span className="text-slate-400 uppercase">{label}</span>
+            <span className="font-black">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {stats.bossKills.length > 0 && (
+        <div className="space-y-1 text-[9px]">
+          {stats.bossKills.map(kill => (
+            <div key={`${kill.phase}-${kill.name}`} className="flex justify-between text-orange-400">
+              <span className="uppercase font-bold">{kill.name} down</span>
+              <span className="font-black">
+                {time(kill.ticks)}
+                {showSplits && <span className="ml-2 text-yellow-400">split {time(kill.split)}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <table className="w-full text-[8px]">
+        <thead>
+          <tr className="text-slate-400 uppercase tracking-widest border-b border-slate-600">
+            <th className="py-1 text-left">Phase</th>
+            <th className="py-1 text-right">Time</th>
+            <th className="py-1 text-right">Dealt</th>
+            <th className="py-1 text-right">Taken</th>
+            <th className="py-1 text-right">Kills</th>
+            <th className="py-1 text-right">Chaos</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.phases.map(phase => (
+            <tr key={phase.phase} className="border-b border-slate-700/50">
+              <td className="py-1 pr-2 font-bold uppercase">{phase.phase}. {phase.name}</td>
+              <td className="py-1 text-right">{time(phase.ticks)}</td>
+              <td className="py-1 text-right">{Math.round(phase.damageDealt)}</td>
+              <td className="py-1 text-right">{Math.round(phase.damageTaken)}</td>
+              <td className="py-1 text-right">{phase.kills}</td>
+              <td className="py-1 text-right">{phase.chaos}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RunSummary;
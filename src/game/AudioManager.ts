@@ -43,6 +43,8 @@ class AudioManager {
   private musicMuted: boolean = false;
 
   private currentTheme: ThemeType | null = null;
+  /** Last theme asked for, remembered while the browser still blocks playback */
+  private requestedTheme: ThemeType | null = null;
   private activeSource: AudioBufferSourceNode | null = null;
   private activeGain: GainNode | null = null;
   
@@ -81,6 +83,15 @@ class AudioManager {
     }
   }
 
+  /**
+   * Call from the first user interaction: starts the audio context and the
+   * theme requested before autoplay was allowed.
+   */
+  public async unlock() {
+    await this.init();
+    if (this.requestedTheme) await this.playTheme(this.requestedTheme, true);
+  }
+
   setVolume(volume: number) {
     this.volume = volume;
     if (this.masterGain && this.ctx) {
@@ -127,6 +138,7 @@ class AudioManager {
    * Summary: Plays a specific background theme with crossfading support.
    */
   async playTheme(type: ThemeType, resume: boolean = false) {
+    this.requestedTheme = type;
     await this.init();
     if (!this.ctx || !this.masterGain) return;
     
@@ -0,0 +1,282 @@
+import { Enemy, type EnemyOverrides } from './Enemy';
+import { EntityState } from '../types';
+import { Random } from './Random';
+import { getArchetype } from './EnemyArchetypes';
+import type { BossSnapshot } from './SaveGame';
+
+/** Boss identities a level can name; each maps to a class in Bosses.ts */
+export const BOSS_KINDS = ['bossOne', 'bossTwo'] as const;
+export type BossKind = typeof BOSS_KINDS[number];
+
+/**
+ * A named special attack. Once off cooldown and with the target inside the
+ * range band, the boss rolls `chance` every AI tick to start it.
+ */
+export interface BossPattern {
+  /** Ticks before the pattern can start again (scaled by the stage) */
+  cooldown: number;
+  chance: number;
+  minRange?: number;
+  maxRange?: number;
+  start: (dx: number, dy: number, dist: number) => void;
+}
+
+/**
+ * A slice of the fight. The active stage is the last one whose hpThreshold
+ * (fraction of max HP) the boss has fallen to; stages only ever advance.
+ */
+export interface BossStage {
+  name: string;
+  hpThreshold: number;
+  speedMultiplier: number;
+  attackInterval: number;
+  windup: number;
+  /** Scales every pattern cooldown while the stage is active */
+  cooldownMultiplier: number;
+  /** Pattern names (keys of `patterns`) usable in this stage, in priority order */
+  patterns: string[];
+  /** Regular enemies called in when the stage begins */
+  summon: number;
+  /** Shown over the boss when the stage begins */
+  callout?: string;
+}
+
+/**
+ * SECTION: BOSS BASE CLASS
+ * Summary: Bosses are enemies scripted as HP-threshold stages and named attack
+ * patterns. The base class runs stage transitions, pattern cooldowns and the
+ * shared shockwave blast; subclasses (Bosses.ts) declare their identity,
+ * sprites, stages and extra patterns.
+ */
+export abstract class Boss extends Enemy {
+  abstract readonly kind: BossKind;
+  abstract readonly displayName: string;
+  protected abstract readonly stages: BossStage[];
+  protected abstract readonly patterns: Record<string, BossPattern>;
+
+  private stageIndex: number = -1;
+  private baseSpeed: number;
+  private cooldowns: Map<string, number> = new Map();
+  private pendingSummons: number = 0;
+  private calloutText: string | null = null;
+  private calloutTimer: number = 0;
+
+  // Shockwave blast shared by every boss
+  private isChargingBlast: boolean = false;
+  private blastChargeTimer: number = 0;
+  public blastActive: boolean = false;
+  public blastRadius: number = 0;
+  readonly MAX_BLAST_RADIUS = 180;
+
+  constructor(x: number, y: number, rng: Random, overrides: EnemyOverrides = {}) {
+    super(x, y, rng, getArchetype('boss'), overrides);
+    this.isBoss = true;
+    this.baseSpeed = this.speed;
+  }
+
+  get stage(): BossStage {
+    return this.stages[Math.max(0, this.stageIndex)];
+  }
+
+  /** HP fractions where later stages begin */
+  get stageMarkers(): number[] {
+    return this.stages.slice(1).map(stage => stage.hpThreshold);
+  }
+
+  /** Regular enemies requested by stage transitions since the last call */
+  takeSummons(): number {
+    const count = this.pendingSummons;
+    this.pendingSummons = 0;
+    return count;
+  }
+
+  protected snapshotBoss(): BossSnapshot {
+    return {
+      kind: this.kind,
+      stageIndex: this.stageIndex,
+      baseSpeed: this.baseSpeed,
+      cooldowns: [...this.cooldowns],
+      pendingSummons: this.pendingSummons,
+      calloutText: this.calloutText,
+      calloutTimer: this.calloutTimer,
+      isChargingBlast: this.isChargingBlast,
+      blastChargeTimer: this.blastChargeTimer,
+      blastActive: this.blastActive,
+      blastRadius: this.blastRadius,
+      patternState: this.snapshotPatterns(),
+    };
+  }
+
+  protected restoreBoss(s: BossSnapshot) {
+    this.stageIndex = s.stageIndex;
+    this.baseSpeed = s.baseSpeed;
+    this.cooldowns = new Map(s.cooldowns);
+    this.pendingSummons = s.pendingSummons;
+    this.calloutText = s.calloutText;
+    this.calloutTimer = s.calloutTimer;
+    this.isChargingBlast = s.isChargingBlast;
+    this.blastChargeTimer = s.blastChargeTimer;
+    this.blastActive = s.blastActive;
+    this.blastRadius = s.blastRadius;
+    this.restorePatterns(s.patternState);
+  }
+
+  /** State owned by subclass patterns (casts in progress), for save games */
+  protected snapshotPatterns(): Record<string, number | boolean> {
+    return {};
+  }
+
+  protected restorePatterns(_state: Record<string, number | boolean>) {}
+
+  /**
+   * SECTION: STAGE TRANSITIONS
+   * Summary: Advances to the deepest stage the current HP qualifies for and
+   * applies its speed and attack rhythm.
+   */
+  private updateStage() {
+    const ratio = this.hp / this.maxHp;
+    let next = Math.max(0, this.stageIndex);
+    while (next + 1 < this.stages.length && ratio <= this.stages[next + 1].hpThreshold) next++;
+    if (next === this.stageIndex) return;
+
+    const entering = this.stageIndex >= 0;
+    this.stageIndex = next;
+    const stage = this.stages[next];
+    this.speed = this.baseSpeed * stage.speedMultiplier;
+    this.attackInterval = this.scaledInterval(stage.attackInterval);
+    this.windupTime = stage.windup;
+    if (entering) {
+      this.pendingSummons += stage.summon;
+      if (stage.callout) {
+        this.calloutText = stage.callout;
+        this.calloutTimer = 90;
+      }
+    }
+  }
+
+  updateAI() {
+    this.updateStage();
+    super.updateAI();
+  }
+
+  protected isBusy(): boolean {
+    return this.isChargingBlast || this.blastActive;
+  }
+
+  protected tryPattern(dx: number, dy: number, dist: number): boolean {
+    const stage = this.stage;
+    for (const name of stage.patterns) {
+      const pattern = this.patterns[name];
+      if (!pattern || (this.cooldowns.get(name) ?? 0) > 0) continue;
+      if (pattern.minRange !== undefined && dist < pattern.minRange) continue;
+      if (pattern.maxRange !== undefined && dist > pattern.maxRange) continue;
+      if (this.rng.chance(pattern.chance)) {
+        this.cooldowns.set(name, Math.round(pattern.cooldown * stage.cooldownMultiplier));
+        pattern.start(dx, dy, dist);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Telegraphed shockwave: a one second charge, then a ring expanding to MAX_BLAST_RADIUS */
+  protected startBlast() {
+    this.isChargingBlast = true;
+    this.blastChargeTimer = 60;
+    this.setState(EntityState.WINDING_UP);
+  }
+
+  /** True while a telegraph is up, so the boss shakes and shows WARNING! */
+  protected isTelegraphing(): boolean {
+    return this.isChargingBlast;
+  }
+
+  update() {
+    this.cooldowns.forEach((ticks, name) => {
+      if (ticks > 0) this.cooldowns.set(name, ticks - 1);
+    });
+    if (this.calloutTimer > 0) this.calloutTimer--;
+
+    // Handle Blast Cycle
+    if (this.isChargingBlast) {
+      this.blastChargeTimer--;
+      if (this.blastChargeTimer <= 0) {
+        this.isChargingBlast = false;
+        this.blastActive = true;
+        this.blastRadius = 0;
+      }
+    }
+    if (this.blastActive) {
+      // Keep the special animation playing during blast
+      if (this.state !== EntityState.WINDING_UP) {
+        this.setState(EntityState.WINDING_UP);
+      }
+      this.blastRadius += (this.MAX_BLAST_RADIUS * this.scale) / 60;
+      if (this.blastRadius > this.MAX_BLAST_RADIUS * this.scale) {
+          this.blastActive = false;
+          this.blastRadius = 0;
+      }
+    }
+
+    super.update();
+  }
+
+  /**
+   * SECTION: RENDERING
+   * Summary: Blast telegraph and wave, the WARNING! shake while a pattern is
+   * telegraphed, and the stage callout.
+   */
+  protected drawBody(ctx: CanvasRenderingContext2D) {
+    const radius = this.MAX_BLAST_RADIUS * this.scale;
+    if (this.isChargingBlast) {
+        // Red ground telegraph circle
+        const opacity = Math.abs(Math.sin(Date.now() / 100)) * 0.5;
+        ctx.fillStyle = `rgba(239, 68, 68, ${opacity})`;
+        ctx.beginPath();
+        ctx.ellipse(this.x, this.y, radius, radius * 0.4, 0, 0, Math.PI * 2);
+        ctx.fill();
+
+        ctx.strokeStyle = '#ef4444';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.ellipse(this.x, this.y, radius, radius * 0.4, 0, 0, Math.PI * 2);
+        ctx.stroke();
+    }
+
+    if (this.blastActive) {
+      const progress = 1 - (this.blastRadius / radius);
+      ctx.strokeStyle = `rgba(255, 255, 0, ${progress})`;
+      ctx.lineWidth = 8;
+      ctx.beginPath();
+      ctx.ellipse(this.x, this.y, this.blastRadius, this.blastRadius * 0.4, 0, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    const top = this.y - this.height * this.scale;
+    if (this.isTelegraphing()) {
+        ctx.save();
+        ctx.translate(Math.sin(Date.now() / 20) * 4, 0); // Shake boss
+        super.drawBody(ctx);
+        ctx.restore();
+        ctx.fillStyle = '#ff0000';
+        ctx.font = 'bold 12px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.fillText('WARNING!', this.x, top - 40);
+    } else {
+      super.drawBody(ctx);
+    }
+
+    if (this.calloutTimer > 0 && this.calloutText) {
+      ctx.save();
+      ctx.globalAlpha = Math.min(1, this.calloutTimer / 20);
+      ctx.fillStyle = '#f97316';
+      ctx.strokeStyle = '#000000';
+      ctx.lineWidth = 4;
+      ctx.font = 'bold 16px "Press Start 2P"';
+      ctx.textAlign = 'center';
+      ctx.strokeText(this.calloutText, this.x, top - 64);
+      ctx.fillText(this.calloutText, this.x, top - 64);
+      ctx.restore();
+    }
+  }
+}
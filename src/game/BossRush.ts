@@ -0,0 +1,24 @@
+import type { LevelDefinition } from './Levels';
+
+/**
+ * SECTION: BOSS RUSH
+ * Summary: Rebuilds a level as its boss fights only, back to back in level
+ * order, so any boss the level defines joins the rush. Each fight keeps its
+ * campaign phase's stage, roster and escort; a chaos target of 0 brings the
+ * boss in on the phase's first tick. Healing between fights is cut to
+ * BOSS_RUSH_HEAL_SCALE of the campaign's. The run timer and per-boss splits
+ * come from the run statistics (see RunStats.ts).
+ */
+export const BOSS_RUSH_HEAL_SCALE = 0.4;
+
+/** Throws when the level has no bosses to rush */
+export function bossRushLevel(level: LevelDefinition): LevelDefinition {
+  const phases = level.phases.filter(phase => phase.boss).map(phase => ({
+    ...phase,
+    chaosTarget: 0,
+    initialSpawn: 0,
+    healOnClear: Math.round(phase.healOnClear * BOSS_RUSH_HEAL_SCALE),
+  }));
+  if (phases.length === 0) throw new Error(`Level "${level.name}" has no bosses`);
+  return { ...level, name: `${level.name} Boss Rush`, phases };
+}
@@ -0,0 +1,216 @@
+import { Boss, type BossKind, type BossPattern, type BossStage } from './Boss';
+import type { EnemyOverrides } from './Enemy';
+import { EntityState } from '../types';
+import { SpriteManager } from './SpriteManager';
+import { Random } from './Random';
+
+/**
+ * SECTION: BOSS ONE — TIDE TITAN (Phase 3)
+ * Summary: A brawler that shakes the pier with shockwaves. Enraged at half
+ * HP it starts shoulder-charging across the screen, and at a quarter it calls
+ * in reinforcements.
+ */
+export class BossOne extends Boss {
+  readonly kind: BossKind = 'bossOne';
+  readonly displayName = 'TIDE TITAN';
+
+  static readonly STAGES: BossStage[] = [
+    { name: 'Brawl', hpThreshold: 1, speedMultiplier: 1, attackInterval: 20, windup: 15,
+      cooldownMultiplier: 1, patterns: ['shockwave'], summon: 0 },
+    { name: 'Enraged', hpThreshold: 0.5, speedMultiplier: 1.35, attackInterval: 14, windup: 11,
+      cooldownMultiplier: 0.65, patterns: ['shockwave', 'charge'], summon: 0, callout: 'ENRAGED!' },
+    { name: 'Last Stand', hpThreshold: 0.25, speedMultiplier: 1.5, attackInterval: 12, windup: 10,
+      cooldownMultiplier: 0.5, patterns: ['charge', 'shockwave'], summon: 2, callout: 'BACKUP!' },
+  ];
+  protected readonly stages = BossOne.STAGES;
+
+  protected readonly patterns: Record<string, BossPattern> = {
+    shockwave: { cooldown: 410, chance: 0.02, maxRange: 180, start: () => this.startBlast() },
+    charge: {
+      cooldown: 240, chance: 0.03, minRange: 140, maxRange: 320,
+      start: (dx, dy, dist) => {
+        // Shoulder charge: slide in fast, then swing as soon as the windup ends
+        this.vx = (dx / dist) * 22;
+        this.vy = (dy / dist) * 4;
+        this.queueAttack('strike', EntityState.ATTACKING_STRAIGHT);
+      },
+    },
+  };
+
+  constructor(x: number, y: number, rng: Random, overrides: EnemyOverrides = {}) {
+    super(x, y, rng, overrides);
+
+    // Separate sprite sheets (640x128, 5 frames at 128x128 each)
+    // Each animation is its own file: Running, Attack, Special
+    this.spriteManager = new SpriteManager();
+    this.spriteScale = 1.2;
+
+    this.spriteManager.register('bossOne_running', {
+      path: '/sprite/bossOne/bossOneRunning.png',
+      frameCount: 5,
+      columns: 5,
+      rows: 1,
+      startFrame: 0,
+      offsetY: -6,
+    });
+    this.spriteManager.register('bossOne_attack', {
+      path: '/sprite/bossOne/bossOneAttack.png',
+      frameCount: 5,
+      columns: 5,
+      rows: 1,
+      startFrame: 0,
+      offsetY: -6,
+    });
+    this.spriteManager.register('bossOne_special', {
+      path: '/sprite/bossOne/bossOneSpecial.png',
+      frameCount: 5,
+      columns: 5,
+      rows: 1,
+      startFrame: 0,
+      offsetY: -6,
+    });
+
+    this.spriteStateMap.set(EntityState.IDLE, { spriteKey: 'bossOne_running' });
+    this.spriteStateMap.set(EntityState.WALKING, { spriteKey: 'bossOne_running' });
+    this.spriteStateMap.set(EntityState.DODGING, { spriteKey: 'bossOne_running' });
+    this.spriteStateMap.set(EntityState.ATTACKING_JAB, { spriteKey: 'bossOne_attack' });
+    this.spriteStateMap.set(EntityState.ATTACKING_STRAIGHT, { spriteKey: 'bossOne_attack' });
+    this.spriteStateMap.set(EntityState.WINDING_UP, { spriteKey: 'bossOne_special' });
+    this.spriteStateMap.set(EntityState.HIT, { spriteKey: 'bossOne_special' });
+    this.spriteStateMap.set(EntityState.DEAD, { spriteKey: 'bossOne_special' });
+  }
+}
+
+/**
+ * SECTION: BOSS TWO — VOID CRAB (Phase 5)
+ * Summary: Slower swings, shockwaves up close and homing void orbs from range.
+ * Enraged it fires orb volleys; near death it summons adds and casts faster.
+ */
+export class BossTwo extends Boss {
+  readonly kind: BossKind = 'bossTwo';
+  readonly displayName = 'VOID CRAB';
+
+  static readonly STAGES: BossStage[] = [
+    { name: 'Tidecaller', hpThreshold: 1, speedMultiplier: 1, attackInterval: 35, windup: 20,
+      cooldownMultiplier: 1, patterns: ['voidOrbs', 'shockwave'], summon: 0 },
+    { name: 'Enraged', hpThreshold: 0.5, speedMultiplier: 1.25, attackInterval: 26, windup: 16,
+      cooldownMultiplier: 0.7, patterns: ['voidVolley', 'voidOrbs', 'shockwave'], summon: 0, callout: 'ENRAGED!' },
+    { name: 'Abyss', hpThreshold: 0.25, speedMultiplier: 1.35, attackInterval: 22, windup: 14,
+      cooldownMultiplier: 0.5, patterns: ['voidVolley', 'voidOrbs', 'shockwave'], summon: 3, callout: 'RISE, MY SPAWN!' },
+  ];
+  protected readonly stages = BossTwo.STAGES;
+
+  protected readonly patterns: Record<string, BossPattern> = {
+    voidOrbs: {
+      cooldown: 590, chance: 0.01, minRange: 150,
+      start: () => {
+        this.isCastingProjectiles = true;
+        this.castTimer = 90;
+        this.setState(EntityState.IDLE);
+      },
+    },
+    voidVolley: {
+      cooldown: 420, chance: 0.015, minRange: 120,
+      start: () => {
+        // Fan of three orbs at once
+        [-0.35, 0, 0.35].forEach(spread => this.castOrb(spread));
+        this.setState(EntityState.IDLE);
+      },
+    },
+    shockwave: { cooldown: 410, chance: 0.02, maxRange: 180, start: () => this.startBlast() },
+  };
+
+  // Void orb casting: one orb every 30 ticks while the cast lasts
+  private isCastingProjectiles: boolean = false;
+  private castTimer: number = 0;
+
+  constructor(x: number, y: number, rng: Random, overrides: EnemyOverrides = {}) {
+    super(x, y, rng, overrides);
+
+    // Crab sprite sheet (7 columns × 5 rows, 5 frames per animation)
+    // Row 0: Idle, Row 1: Walk, Row 2: Attack 1, Row 3: Attack 2, Row 4: Death
+    this.spriteManager = new SpriteManager();
+    this.spriteScale = 1.8;
+
+    const rows: [string, number][] = [
+      ['bossTwo_idle', 0],
+      ['bossTwo_walk', 7],
+      ['bossTwo_attack1', 14],
+      ['bossTwo_attack2', 21],
+      ['bossTwo_death', 28],
+    ];
+    rows.forEach(([key, startFrame]) => this.spriteManager!.register(key, {
+      path: '/sprite/bossTwo/bossTwoSprite.webp',
+      frameCount: 5,
+      columns: 7,
+      rows: 5,
+      startFrame,
+      offsetY: 0,
+    }));
+
+    this.spriteStateMap.set(EntityState.IDLE, { spriteKey: 'bossTwo_idle' });
+    this.spriteStateMap.set(EntityState.WALKING, { spriteKey: 'bossTwo_walk' });
+    this.spriteStateMap.set(EntityState.ATTACKING_JAB, { spriteKey: 'bossTwo_attack1' });
+    this.spriteStateMap.set(EntityState.ATTACKING_STRAIGHT, { spriteKey: 'bossTwo_attack2' });
+    this.spriteStateMap.set(EntityState.WINDING_UP, { spriteKey: 'bossTwo_idle' });
+    this.spriteStateMap.set(EntityState.DODGING, { spriteKey: 'bossTwo_walk' });
+    this.spriteStateMap.set(EntityState.HIT, { spriteKey: 'bossTwo_idle' });
+    this.spriteStateMap.set(EntityState.DEAD, { spriteKey: 'bossTwo_death' });
+  }
+
+  private castOrb(spread: number = 0) {
+    if (!this.target) return;
+    const angle = Math.atan2(this.target.y - this.y, this.target.x - this.x) + spread;
+    this.projectiles.push({
+        x: this.x,
+        y: this.y - 45,
+        vx: Math.cos(angle) * 5,
+        vy: Math.sin(angle) * 5,
+        life: 140,
+        damage: 15,
+        kind: 'orb'
+    });
+  }
+
+  protected snapshotPatterns(): Record<string, number | boolean> {
+    return { isCastingProjectiles: this.isCastingProjectiles, castTimer: this.castTimer };
+  }
+
+  protected restorePatterns(state: Record<string, number | boolean>) {
+    this.isCastingProjectiles = state.isCastingProjectiles === true;
+    this.castTimer = Number(state.castTimer ?? 0);
+  }
+
+  protected isBusy(): boolean {
+    return super.isBusy() || this.isCastingProjectiles;
+  }
+
+  protected isTelegraphing(): boolean {
+    return super.isTelegraphing() || this.isCastingProjectiles;
+  }
+
+  update() {
+    if (this.isCastingProjectiles) {
+      this.castTimer--;
+      if (this.castTimer % 30 === 0 && this.castTimer > 0) this.castOrb();
+      if (this.castTimer <= 0) this.isCastingProjectiles = false;
+    }
+    super.update();
+  }
+}
+
+type BossClass = (new (x: number, y: number, rng: Random, overrides?: EnemyOverrides) => Boss) & { STAGES: BossStage[] };
+
+const BOSS_CLASSES: Record<BossKind, BossClass> = {
+  bossOne: BossOne,
+  bossTwo: BossTwo,
+};
+
+export function createBoss(kind: BossKind, x: number, y: number, rng: Random, overrides: EnemyOverrides = {}): Boss {
+  return new BOSS_CLASSES[kind](x, y, rng, overrides);
+}
+
+/** How many stages a boss kind's fight has (save games check stage indices against it) */
+export function bossStageCount(kind: BossKind): number {
+  return BOSS_CLASSES[kind].STAGES.length;
+}
@@ -0,0 +1,100 @@
+import { GameEngine } from './GameEngine';
+import { TICKS_PER_SECOND, WORLD_HEIGHT, WORLD_WIDTH } from '../types';
+import { drawPickup } from './Pickups';
+
+/**
+ * SECTION: CANVAS RENDERER
+ * Summary: Optional rendering adapter for the headless GameEngine. Reads the
+ * engine state each frame and draws the layers
+ * (Sky -> Ground -> Pickups -> Entities & Props -> HUD Hints) onto a 2D canvas.
+ */
+export class CanvasRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private engine: GameEngine;
+
+  // Phase background images, keyed by path
+  private backgroundImages: Map<string, HTMLImageElement> = new Map();
+
+  // Cloud drift is purely cosmetic, so it is tracked here instead of in the simulation
+  private startTime: number = performance.now();
+
+  constructor(canvas: HTMLCanvasElement, engine: GameEngine) {
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Could not get canvas context");
+    this.ctx = context;
+    this.engine = engine;
+
+    // Preload every background the level uses
+    engine.getLevel().phases.forEach(({ background }) => {
+      if (this.backgroundImages.has(background)) return;
+      const img = new Image();
+      img.src = background;
+      this.backgroundImages.set(background, img);
+    });
+  }
+
+  /**
+   * SECTION: RENDERING PIPELINE
+   * Summary: Clears the canvas and draws the current engine state.
+   * 'alpha' is how far we are between the last tick and the next (0..1).
+   */
+  draw(alpha: number = 1) {
+    const phaseDef = this.engine.getPhaseDefinition();
+    const night = phaseDef.sky === 'night';
+    this.ctx.clearRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+    
+    // Background Layer: Phase-specific image (with gradient fallback)
+    const bgImg = this.backgroundImages.get(phaseDef.background);
+    if (bgImg && bgImg.complete && bgImg.naturalWidth > 0) {
+      this.ctx.drawImage(bgImg, 0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+    } else {
+      const skyGrad = this.ctx.createLinearGradient(0, 0, 0, 250);
+      skyGrad.addColorStop(0, night ? '#020617' : '#0369a1');
+      skyGrad.addColorStop(1, night ? '#1e1b4b' : '#38bdf8');
+      this.ctx.fillStyle = skyGrad;
+      this.ctx.fillRect(0, 0, WORLD_WIDTH, 250);
+      this.ctx.fillStyle = night ? '#1e293b' : '#fde68a';
+      this.ctx.fillRect(0, 250, WORLD_WIDTH, 350);
+    }
+    
+    // Environmental Decor
+    const cloudDrift = (performance.now() - this.startTime) / (1000 / TICKS_PER_SECOND);
+    this.ctx.fillStyle = 'rgba(255,255,255,0.1)';
+    this.engine.getClouds().forEach(c => {
+        this.ctx.beginPath();
+        this.ctx.ellipse((c.x + cloudDrift * c.s) % 850, c.y, 60, 25, 0, 0, Math.PI * 2);
+        this.ctx.fill();
+    });
+
+    // Dropped items lie on the ground, under everyone
+    this.engine.getPickups().forEach(pickup => drawPickup(this.ctx, pickup));
+
+    // Draw all entities and props sorted by Y coordinate for depth (Z-ordering)
+    const ents = [...this.engine.getPlayers(), ...this.engine.getEnemies(), ...this.engine.getProps()].sort((a,b) => a.y - b.y);
+    ents.forEach(e => e.drawInterpolated(this.ctx, alpha));
+    
+    // Navigation hint when screen is cleared — flashing GO!
+    if (this.engine.isAwaitingAdvance()) {
+        const t = Date.now();
+        const flash = Math.sin(t / 150) > 0; // alternate white/red
+        const pulse = 1 + Math.sin(t / 200) * 0.15; // size pulse 0.85–1.15
+        const fontSize = Math.round(28 * pulse);
+
+        this.ctx.save();
+        this.ctx.textAlign = 'center';
+        this.ctx.font = `bold ${fontSize}px "Press Start 2P"`;
+
+        // Flashing text color
+        this.ctx.fillStyle = flash ? '#ff3333' : '#ffffff';
+        this.ctx.fillText('GO!', 700, 395);
+
+        // Blinking arrow
+        if (Math.sin(t / 300) > 0) {
+            this.ctx.font = `bold ${fontSize}px "Press Start 2P"`;
+            this.ctx.fillText('>>>', 700, 430);
+        }
+
+        this.ctx.restore();
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { EntityState } from '../types';
+
+/**
+ * SECTION: COMBO DEFINITIONS
+ * Summary: Melee combos are plain data. A chain starts with any jab or straight;
+ * pressing the next move during the current attack's cancel window (see
+ * `cancelFrame` in ANIMATION_DATA) links it into the chain as long as the
+ * sequence so far is a prefix of one of the COMBOS below. Completing a full
+ * sequence lands its finisher.
+ */
+export type ComboMove = 'jab' | 'straight' | 'special';
+
+export interface ComboFinisher {
+  damage: number;
+  /** Knockback force (the base hit uses 12) */
+  knockback: number;
+  /** Extra streak awarded when the finisher connects */
+  streakBonus: number;
+}
+
+export interface ComboDefinition {
+  id: string;
+  name: string;
+  sequence: ComboMove[];
+  finisher: ComboFinisher;
+}
+
+export const COMBOS: ComboDefinition[] = [
+  {
+    id: 'one-two',
+    name: 'ONE-TWO',
+    sequence: ['jab', 'straight'],
+    finisher: { damage: 24, knockback: 16, streakBonus: 1 },
+  },
+  {
+    id: 'triple-threat',
+    name: 'TRIPLE THREAT',
+    sequence: ['jab', 'jab', 'straight'],
+    finisher: { damage: 32, knockback: 22, streakBonus: 3 },
+  },
+  {
+    id: 'sunset-surge',
+    name: 'SUNSET SURGE',
+    sequence: ['jab', 'straight', 'special'],
+    finisher: { damage: 24, knockback: 18, streakBonus: 5 },
+  },
+];
+
+/** Damage and knockback of a single move outside of any combo. Jabs push lightly so follow-ups stay in reach */
+export const BASE_MOVES: Record<ComboMove, { damage: number; knockback: number }> = {
+  jab: { damage: 9, knockback: 5 },
+  straight: { damage: 18, knockback: 12 },
+  special: { damage: 15, knockback: 12 },
+};
+
+/** Aerial strikes (see Player): they neither start nor extend a chain */
+export const AERIAL_MOVES = {
+  jumpKick: { damage: 14, knockback: 10 },
+  diveKick: { damage: 16, knockback: 16 },
+};
+
+/** Each linked (non-finishing) hit deals this much more than the one before it */
+export const COMBO_DAMAGE_STEP = 0.15;
+
+export interface ComboStrike {
+  damage: number;
+  knockback: number;
+  /** Set when this move completes a combo */
+  finisher: ComboDefinition | null;
+}
+
+export function moveForState(state: EntityState): ComboMove | null {
+  if (state === EntityState.ATTACKING_JAB) return 'jab';
+  if (state === EntityState.ATTACKING_STRAIGHT) return 'straight';
+  return null;
+}
+
+/** True when the chain is the start of (or all of) at least one combo */
+export function isComboChain(chain: readonly ComboMove[]): boolean {
+  return COMBOS.some(combo => combo.sequence.length >= chain.length
+    && chain.every((move, i) => combo.sequence[i] === move));
+}
+
+/**
+ * Resolves the strike for the last move of a chain: a finisher when the chain
+ * matches a whole combo, otherwise the base move scaled by chain position.
+ */
+export function resolveStrike(chain: readonly ComboMove[]): ComboStrike {
+  const move = chain[chain.length - 1];
+  const combo = COMBOS.find(c => c.sequence.length === chain.length
+    && c.sequence.every((m, i) => chain[i] === m));
+  if (combo) {
+    return { damage: combo.finisher.damage, knockback: combo.finisher.knockback, finisher: combo };
+  }
+  const base = BASE_MOVES[move];
+  return {
+    damage: Math.round(base.damage * (1 + COMBO_DAMAGE_STEP * (chain.length - 1))),
+    knockback: base.knockback,
+    finisher: null,
+  };
+}
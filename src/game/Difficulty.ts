@@ -0,0 +1,81 @@
+import type { DifficultyId } from '../types';
+import type { LevelDefinition } from './Levels';
+import { getArchetype } from './EnemyArchetypes';
+
+/**
+ * SECTION: DIFFICULTY PRESETS
+ * Summary: A preset scales the level and its enemies. Level-side values (enemy
+ * and boss HP, spawn counts, phase-clear healing, chaos targets) are baked into
+ * a tuned copy of the LevelDefinition by applyDifficulty(); per-enemy values
+ * (attack rhythm, dodge rate) travel as EnemyOverrides and damage is scaled
+ * where the engine hurts a player. Normal leaves every value untouched.
+ */
+export interface DifficultyPreset {
+  id: DifficultyId;
+  label: string;
+  description: string;
+  enemyHp: number;
+  enemyDamage: number;
+  /** Scales the ticks between enemy attacks; below 1 is more aggressive */
+  attackInterval: number;
+  dodgeChance: number;
+  /** Added to every phase's initial spawn, active cap and boss escort */
+  extraEnemies: number;
+  healOnClear: number;
+  chaosTarget: number;
+}
+
+export const DIFFICULTIES: Record<DifficultyId, DifficultyPreset> = {
+  easy: {
+    id: 'easy', label: 'Easy', description: 'Softer hits, fewer enemies, big heals',
+    enemyHp: 0.75, enemyDamage: 0.6, attackInterval: 1.4, dodgeChance: 0.5,
+    extraEnemies: -1, healOnClear: 1.5, chaosTarget: 0.8,
+  },
+  normal: {
+    id: 'normal', label: 'Normal', description: 'The beach as intended',
+    enemyHp: 1, enemyDamage: 1, attackInterval: 1, dodgeChance: 1,
+    extraEnemies: 0, healOnClear: 1, chaosTarget: 1,
+  },
+  hard: {
+    id: 'hard', label: 'Hard', description: 'Tougher, faster, more of them',
+    enemyHp: 1.3, enemyDamage: 1.35, attackInterval: 0.8, dodgeChance: 1.4,
+    extraEnemies: 1, healOnClear: 0.6, chaosTarget: 1.2,
+  },
+  nightmare: {
+    id: 'nightmare', label: 'Nightmare', description: 'Barely any healing. Good luck',
+    enemyHp: 1.6, enemyDamage: 1.8, attackInterval: 0.6, dodgeChance: 1.8,
+    extraEnemies: 2, healOnClear: 0.25, chaosTarget: 1.5,
+  },
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyId = 'normal';
+
+export const DIFFICULTY_IDS = Object.keys(DIFFICULTIES) as DifficultyId[];
+
+export function isDifficulty(value: unknown): value is DifficultyId {
+  return typeof value === 'string' && value in DIFFICULTIES;
+}
+
+/** A copy of the level with HP, spawn counts, healing and chaos targets tuned by the preset */
+export function applyDifficulty(level: LevelDefinition, preset: DifficultyPreset): LevelDefinition {
+  const spawns = (count: number) => Math.max(1, count + preset.extraEnemies);
+  return {
+    ...level,
+    phases: level.phases.map(phase => ({
+      ...phase,
+      chaosTarget: Math.round(phase.chaosTarget * preset.chaosTarget),
+      initialSpawn: spawns(phase.initialSpawn),
+      maxActive: spawns(phase.maxActive),
+      healOnClear: Math.round(phase.healOnClear * preset.healOnClear),
+      roster: phase.roster.map(entry => ({
+        ...entry,
+        hp: Math.round((entry.hp ?? getArchetype(entry.archetype).hp) * preset.enemyHp),
+      })),
+      boss: phase.boss && {
+        ...phase.boss,
+        hp: Math.round(phase.boss.hp * preset.enemyHp),
+        escort: spawns(phase.boss.escort),
+      },
+    })),
+  };
+}
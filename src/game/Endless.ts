@@ -0,0 +1,61 @@
+import type { BossDefinition, EnemySpawn, LevelDefinition, PhaseDefinition } from './Levels';
+import { getArchetype } from './EnemyArchetypes';
+
+/**
+ * SECTION: ENDLESS MODE
+ * Summary: Survival waves generated from the campaign level instead of read
+ * from JSON. Wave n borrows the background, sky and music of campaign phase
+ * ((n - 1) mod phase count), so the beach keeps rotating. The roster grows as
+ * the waves reach later campaign phases, enemy HP and counts climb every
+ * wave, and every BOSS_WAVE_INTERVAL-th wave ends with a rematch against the
+ * campaign bosses in turn, with more HP each time. Chaos targets stay
+ * cumulative like the campaign's, with bigger steps per wave.
+ * The level passed in is already tuned by the difficulty, so waves inherit it.
+ */
+export const BOSS_WAVE_INTERVAL = 5;
+
+// Extra enemy HP per wave (fraction of the campaign value)
+const WAVE_HP_GROWTH = 0.08;
+// Extra boss HP per rematch (fraction of the campaign value)
+const REMATCH_HP_GROWTH = 0.25;
+// Living enemies never exceed this, however far the waves go
+const MAX_WAVE_ENEMIES = 8;
+// Chaos needed for wave n: the first phase's target times n(n+1)/2 times this
+const WAVE_CHAOS_FACTOR = 3;
+
+export function endlessWave(level: LevelDefinition, wave: number): PhaseDefinition {
+  const phases = level.phases;
+  const theme = phases[(wave - 1) % phases.length];
+  const hpScale = 1 + (wave - 1) * WAVE_HP_GROWTH;
+  const count = (base: number) => Math.min(MAX_WAVE_ENEMIES, base + Math.floor((wave - 1) / 2));
+
+  return {
+    ...theme,
+    name: `Wave ${wave} · ${theme.name}`,
+    chaosTarget: Math.round(phases[0].chaosTarget * WAVE_CHAOS_FACTOR * wave * (wave + 1) / 2),
+    roster: waveRoster(level, wave).map(entry => ({
+      ...entry,
+      hp: Math.round((entry.hp ?? getArchetype(entry.archetype).hp) * hpScale),
+    })),
+    initialSpawn: count(phases[0].initialSpawn),
+    maxActive: count(phases[0].maxActive),
+    boss: wave % BOSS_WAVE_INTERVAL === 0 ? rematch(level, wave / BOSS_WAVE_INTERVAL) : null,
+  };
+}
+
+/** Every archetype met in the campaign phases reached so far, as the latest phase listed it */
+function waveRoster(level: LevelDefinition, wave: number): EnemySpawn[] {
+  const byArchetype = new Map<string, EnemySpawn>();
+  level.phases.slice(0, wave).forEach(phase => {
+    phase.roster.forEach(entry => byArchetype.set(entry.archetype, entry));
+  });
+  return [...byArchetype.values()];
+}
+
+/** The campaign bosses in order, round after round */
+function rematch(level: LevelDefinition, round: number): BossDefinition | null {
+  const bosses = level.phases.flatMap(phase => phase.boss ? [phase.boss] : []);
+  if (bosses.length === 0) return null;
+  const boss = bosses[(round - 1) % bosses.length];
+  return { ...boss, hp: Math.round(boss.hp * (1 + round * REMATCH_HP_GROWTH)) };
+}
@@ -1,216 +1,459 @@
 
 import { Entity } from './Entity';
-import { EntityState, Rect } from '../types';
-import { SpriteManager } from './SpriteManager';
+import { EntityState, type Rect, WORLD_WIDTH } from '../types';
+import { Random } from './Random';
+import { type EnemyArchetype, getArchetype } from './EnemyArchetypes';
+import type { BossSnapshot, EnemySnapshot } from './SaveGame';
 
-interface Projectile {
+export interface Projectile {
     x: number;
     y: number;
     vx: number;
     vy: number;
     life: number;
+    damage: number;
+    /** Void orbs home in on their target; bottles fly straight */
+    kind: 'orb' | 'bottle';
+    /** Slot of the player who parried it back at its caster */
+    reflectedBy?: number;
+}
+
+/** Per-spawn tweaks on top of the archetype (level roster colors, boss stats, difficulty) */
+export interface EnemyOverrides {
+  color?: string;
+  hp?: number;
+  scale?: number;
+  /** Multiplies every attack interval, boss stage intervals included */
+  attackIntervalScale?: number;
+  /** Multiplies the archetype's dodge chance */
+  dodgeScale?: number;
 }
 
 /**
  * SECTION: ENEMY CLASS
- * Summary: AI controlled entity with state-machine behaviors. 
- * Includes specialized Boss logic for Phase 3 and Phase 5.
+ * Summary: AI controlled entity with state-machine behaviors. Stats and the
+ * AI routine come from its archetype (see EnemyArchetypes.ts). Bosses extend
+ * it through the isBusy()/tryPattern() hooks (see Boss.ts).
  */
+// How often (ticks) an enemy reconsiders which player to chase
+const RETARGET_INTERVAL = 90;
+// Grapplers: reach window, hold length and pause before the next grab
+const GRAB_REACH_TIME = 14;
+const GRAB_HOLD_TIME = 100;
+const GRAB_COOLDOWN = 180;
+// Held by a player: ticks before wriggling free (grapplers know the tricks)
+const ESCAPE_TIME = 120;
+const GRAPPLER_ESCAPE_TIME = 70;
+// Thrown by a player: flight length and speed
+const THROW_FLIGHT = 24;
+const THROW_SPEED = 12;
+// Guards turn some straights into a low sweep, only shin high (jump it)
+const SWEEP_CHANCE = 0.3;
+const SWEEP_HEIGHT = 24;
+// Stun on an attacker whose windup a player parried
+const PARRY_STAGGER = 50;
+// Throwers try to stay within this band from their target
+const THROW_MIN_RANGE = 160;
+const THROW_MAX_RANGE = 340;
+// ...but never from off screen, where the players can't reach them
+const THROW_EDGE_MARGIN = 40;
+
 export class Enemy extends Entity {
-  private target: Entity | null = null;
-  private aiTick: number = 0;
+  protected target: Entity | null = null;
+  private targets: Entity[] = [];
+  private retargetTimer: number = 0;
+  protected aiTick: number = 0;
   private color: string;
+  readonly archetype: EnemyArchetype;
   isBoss: boolean = false;
 
+  // Attack rhythm; bosses retune these per stage
+  protected attackInterval: number;
+  protected windupTime: number;
+  protected readonly attackIntervalScale: number;
+  private readonly dodgeChance: number;
   private windupTimer: number = 0;
   private nextAttackType: EntityState = EntityState.ATTACKING_JAB;
+  /** What the current windup turns into: a punch, a low sweep, a grab or a bottle throw */
+  private pendingAction: 'strike' | 'sweep' | 'grab' | 'throw' = 'strike';
   private dodgeCooldown: number = 0;
+  private lungeCooldown: number = 0;
+
+  // Grappler hold: the engine positions and damages whoever is in `grabbed`
+  grabbed: Entity | null = null;
+  grabHoldTimer: number = 0;
+  private grabReachTimer: number = 0;
+  private grabCooldown: number = 0;
 
-  // Boss Phase 3 Special (Blast)
-  private blastCooldown: number = 0;
-  private isChargingBlast: boolean = false;
-  private blastChargeTimer: number = 0;
-  public blastActive: boolean = false;
-  public blastRadius: number = 0;
-  readonly MAX_BLAST_RADIUS = 180; 
+  // Held or thrown by a player (see HELD & THROWN)
+  escapeTimer: number = 0;
+  thrownBy: number | null = null;
 
-  // Boss Phase 5 Special (Void Orbs)
+  // Thrown bottles and boss orbs in flight
   public projectiles: Projectile[] = [];
-  private projectileCooldown: number = 0;
-  private isCastingProjectiles: boolean = false;
-  private castTimer: number = 0;
-
-  constructor(x: number, y: number, color: string = '#ef4444', isBoss: boolean = false, hp: number = 30, scale: number = 1) {
-    super(x, y, hp);
-    this.speed = (1.5 + Math.random() * 2) * (isBoss ? 0.7 : 1);
-    this.color = color;
-    this.isBoss = isBoss;
-    this.scale = scale;
-
-    // Setup sprite rendering for bosses
-    if (isBoss) {
-      this.spriteManager = new SpriteManager();
-
-      if (hp >= 500) {
-        // BossTwo (Phase 5) — Crab sprite sheet (7 columns × 5 rows, 5 frames per animation)
-        // Row 0: Idle, Row 1: Walk, Row 2: Attack 1, Row 3: Attack 2, Row 4: Death
-        this.spriteScale = 1.8;
-
-        this.spriteManager.register('bossTwo_idle', {
-          path: '/sprite/bossTwo/bossTwoSprite.webp',
-          frameCount: 5,
-          columns: 7,
-          rows: 5,
-          startFrame: 0,  // Row 0
-          offsetY: 0,
-        });
-        this.spriteManager.register('bossTwo_walk', {
-          path: '/sprite/bossTwo/bossTwoSprite.webp',
-          frameCount: 5,
-          columns: 7,
-          rows: 5,
-          startFrame: 7,  // Row 1
-          offsetY: 0,
-        });
-        this.spriteManager.register('bossTwo_attack1', {
-          path: '/sprite/bossTwo/bossTwoSprite.webp',
-          frameCount: 5,
-          columns: 7,
-          rows: 5,
-          startFrame: 14, // Row 2
-          offsetY: 0,
-        });
-        this.spriteManager.register('bossTwo_attack2', {
-          path: '/sprite/bossTwo/bossTwoSprite.webp',
-          frameCount: 5,
-          columns: 7,
-          rows: 5,
-          startFrame: 21, // Row 3
-          offsetY: 0,
-        });
-        this.spriteManager.register('bossTwo_death', {
-          path: '/sprite/bossTwo/bossTwoSprite.webp',
-          frameCount: 5,
-          columns: 7,
-          rows: 5,
-          startFrame: 28, // Row 4
-          offsetY: 0,
-        });
-
-        this.spriteStateMap.set(EntityState.IDLE, { spriteKey: 'bossTwo_idle' });
-        this.spriteStateMap.set(EntityState.WALKING, { spriteKey: 'bossTwo_walk' });
-        this.spriteStateMap.set(EntityState.ATTACKING_JAB, { spriteKey: 'bossTwo_attack1' });
-        this.spriteStateMap.set(EntityState.ATTACKING_STRAIGHT, { spriteKey: 'bossTwo_attack2' });
-        this.spriteStateMap.set(EntityState.WINDING_UP, { spriteKey: 'bossTwo_idle' });
-        this.spriteStateMap.set(EntityState.DODGING, { spriteKey: 'bossTwo_walk' });
-        this.spriteStateMap.set(EntityState.HIT, { spriteKey: 'bossTwo_idle' });
-        this.spriteStateMap.set(EntityState.DEAD, { spriteKey: 'bossTwo_death' });
-      } else {
-        // BossOne (Phase 3) — Separate sprite sheets (640x128, 5 frames at 128x128 each)
-        // Each animation is its own file: Running, Attack, Special
-        this.spriteScale = 1.2;
-
-        this.spriteManager.register('bossOne_running', {
-          path: '/sprite/bossOne/bossOneRunning.png',
-          frameCount: 5,
-          columns: 5,
-          rows: 1,
-          startFrame: 0,
-          offsetY: -6,
-        });
-        this.spriteManager.register('bossOne_attack', {
-          path: '/sprite/bossOne/bossOneAttack.png',
-          frameCount: 5,
-          columns: 5,
-          rows: 1,
-          startFrame: 0,
-          offsetY: -6,
-        });
-        this.spriteManager.register('bossOne_special', {
-          path: '/sprite/bossOne/bossOneSpecial.png',
-          frameCount: 5,
-          columns: 5,
-          rows: 1,
-          startFrame: 0,
-          offsetY: -6,
-        });
-
-        this.spriteStateMap.set(EntityState.IDLE, { spriteKey: 'bossOne_running' });
-        this.spriteStateMap.set(EntityState.WALKING, { spriteKey: 'bossOne_running' });
-        this.spriteStateMap.set(EntityState.DODGING, { spriteKey: 'bossOne_running' });
-        this.spriteStateMap.set(EntityState.ATTACKING_JAB, { spriteKey: 'bossOne_attack' });
-        this.spriteStateMap.set(EntityState.ATTACKING_STRAIGHT, { spriteKey: 'bossOne_attack' });
-        this.spriteStateMap.set(EntityState.WINDING_UP, { spriteKey: 'bossOne_special' });
-        this.spriteStateMap.set(EntityState.HIT, { spriteKey: 'bossOne_special' });
-        this.spriteStateMap.set(EntityState.DEAD, { spriteKey: 'bossOne_special' });
-      }
+
+  constructor(x: number, y: number, rng: Random, archetype: EnemyArchetype = getArchetype('brawler'), overrides: EnemyOverrides = {}) {
+    super(x, y, overrides.hp ?? archetype.hp, rng);
+    this.archetype = archetype;
+    this.speed = this.rng.range(archetype.speed[0], archetype.speed[1]);
+    this.color = overrides.color ?? archetype.color;
+    this.scale = overrides.scale ?? archetype.scale;
+    this.attackIntervalScale = overrides.attackIntervalScale ?? 1;
+    this.attackInterval = this.scaledInterval(archetype.attackInterval);
+    this.windupTime = archetype.windup;
+    this.dodgeChance = Math.min(0.9, archetype.dodgeChance * (overrides.dodgeScale ?? 1));
+  }
+
+  protected scaledInterval(ticks: number): number {
+    return Math.max(1, Math.round(ticks * this.attackIntervalScale));
+  }
+
+  /**
+   * SECTION: TARGET SELECTION
+   * Summary: Enemies receive every player as a candidate and periodically pick
+   * one to chase. Mostly the closest, sometimes the other, so co-op partners
+   * both stay under pressure. With a single living player no roll is made,
+   * keeping solo runs identical for a given seed.
+   */
+  setTargets(candidates: Entity[]) {
+    this.targets = candidates;
+    this.pickTarget();
+  }
+
+  private pickTarget() {
+    this.retargetTimer = RETARGET_INTERVAL;
+    const alive = this.targets.filter(t => t.state !== EntityState.DEAD);
+    if (alive.length <= 1) {
+      this.target = alive[0] ?? null;
+      return;
     }
+    if (this.rng.chance(0.3)) {
+      this.target = alive[Math.floor(this.rng.next() * alive.length)];
+      return;
+    }
+    const distTo = (t: Entity) => Math.hypot(t.x - this.x, t.y - this.y);
+    this.target = alive.reduce((best, t) => distTo(t) < distTo(best) ? t : best);
+  }
+
+  /**
+   * SECTION: SAVE STATE
+   * Summary: Targets and grabbed players are stored by player slot, so
+   * setTargets() must run before restoreSnapshot(). Bosses add their stage and
+   * pattern state through snapshotBoss().
+   */
+  toSnapshot(): EnemySnapshot {
+    const slotOf = (entity: Entity | null) => entity ? this.targets.indexOf(entity) : null;
+    return {
+      ...this.snapshotEntity(),
+      archetype: this.archetype.name,
+      color: this.color,
+      target: slotOf(this.target),
+      retargetTimer: this.retargetTimer,
+      aiTick: this.aiTick,
+      attackInterval: this.attackInterval,
+      windupTime: this.windupTime,
+      windupTimer: this.windupTimer,
+      nextAttackType: this.nextAttackType,
+      pendingAction: this.pendingAction,
+      dodgeCooldown: this.dodgeCooldown,
+      lungeCooldown: this.lungeCooldown,
+      grabbed: slotOf(this.grabbed),
+      grabHoldTimer: this.grabHoldTimer,
+      grabReachTimer: this.grabReachTimer,
+      grabCooldown: this.grabCooldown,
+      escapeTimer: this.escapeTimer,
+      thrownBy: this.thrownBy,
+      projectiles: this.projectiles.map(p => ({ ...p })),
+      boss: this.snapshotBoss(),
+    };
+  }
+
+  restoreSnapshot(s: EnemySnapshot) {
+    const atSlot = (slot: number | null) => slot === null ? null : this.targets[slot] ?? null;
+    this.restoreEntity(s);
+    this.color = s.color;
+    this.target = atSlot(s.target);
+    this.retargetTimer = s.retargetTimer;
+    this.aiTick = s.aiTick;
+    this.attackInterval = s.attackInterval;
+    this.windupTime = s.windupTime;
+    this.windupTimer = s.windupTimer;
+    this.nextAttackType = s.nextAttackType;
+    this.pendingAction = s.pendingAction;
+    this.dodgeCooldown = s.dodgeCooldown;
+    this.lungeCooldown = s.lungeCooldown;
+    this.grabbed = atSlot(s.grabbed);
+    this.grabHoldTimer = s.grabHoldTimer;
+    this.grabReachTimer = s.grabReachTimer;
+    this.grabCooldown = s.grabCooldown;
+    this.escapeTimer = s.escapeTimer;
+    this.thrownBy = s.thrownBy;
+    this.projectiles = s.projectiles.map(p => ({ ...p }));
+    if (s.boss) this.restoreBoss(s.boss);
   }
 
-  setTarget(entity: Entity) {
-    this.target = entity;
+  protected snapshotBoss(): BossSnapshot | null {
+    return null;
   }
 
+  protected restoreBoss(_s: BossSnapshot) {}
+
   /**
    * SECTION: AI BRAIN
    * Summary: Decides when to move, attack, or trigger special abilities based on 
    * distance to player and internal cooldowns.
    */
   updateAI() {
+    if (this.retargetTimer > 0) this.retargetTimer--;
+    if (!this.target || this.target.state === EntityState.DEAD || this.retargetTimer === 0) this.pickTarget();
+
+    // Held: nothing to do but wriggle free
+    if (this.state === EntityState.GRABBED) {
+      if (--this.escapeTimer <= 0) this.breakFree();
+      return;
+    }
+    if (this.state === EntityState.THROWN) return;
     if (!this.target || this.state === EntityState.HIT || this.state === EntityState.DEAD || this.state === EntityState.DODGING) return;
-    if (this.state === EntityState.ATTACKING_JAB || this.state === EntityState.ATTACKING_STRAIGHT || this.state === EntityState.WINDING_UP || this.isChargingBlast || this.blastActive || this.isCastingProjectiles) return;
+    if (this.state === EntityState.ATTACKING_JAB || this.state === EntityState.ATTACKING_STRAIGHT || this.state === EntityState.WINDING_UP || this.isBusy()) return;
 
     this.aiTick++;
     const dx = this.target.x - this.x;
     const dy = this.target.y - this.y;
     const dist = Math.sqrt(dx * dx + dy * dy);
 
-    this.facing = dx > 0 ? 1 : -1;
+    // Throwers back off facing their target, so they turn inside their routine
+    if (this.archetype.behavior !== 'thrower') this.facing = dx > 0 ? 1 : -1;
 
-    // Boss Ability: Projectiles (Phase 5)
-    if (this.isBoss && this.maxHp >= 500 && this.projectileCooldown === 0 && dist > 150) {
-      if (Math.random() < 0.01) {
-        this.isCastingProjectiles = true;
-        this.castTimer = 90;
-        this.setState(EntityState.IDLE);
-        return;
-      }
-    }
+    // Special patterns (bosses) take priority over the archetype routine
+    if (this.tryPattern(dx, dy, dist)) return;
 
-    // Boss Ability: Blast (Phase 3/5)
-    if (this.isBoss && this.blastCooldown === 0 && dist < 180) {
-      if (Math.random() < 0.02) {
-        this.isChargingBlast = true;
-        this.blastChargeTimer = 60;
-        this.setState(EntityState.WINDING_UP);
+    switch (this.archetype.behavior) {
+      case 'thrower':
+        this.updateThrower(dx, dy, dist);
         return;
-      }
+      case 'grappler':
+        if (this.grabbed) return;
+        break;
+      case 'rusher':
+        // Lunge across mid range, then follow up with a quick jab
+        if (this.lungeCooldown === 0 && dist > 90 && dist < 200) {
+          this.vx = (dx / dist) * 14;
+          this.vy = (dy / dist) * 5;
+          this.lungeCooldown = 150;
+          this.queueAttack('strike', EntityState.ATTACKING_JAB);
+          return;
+        }
+        break;
     }
 
-    // Basic Combat Chase
-    if (dist > 80 * this.scale) {
+    // Basic Combat Chase (rushers weave on the way in, grapplers close in tight)
+    const engageRange = (this.archetype.behavior === 'grappler' ? 45 : 80) * this.scale;
+    if (dist > engageRange) {
       this.setState(EntityState.WALKING);
+      const weave = this.archetype.behavior === 'rusher' ? Math.sin(this.aiTick / 8) * 0.8 : 0;
       this.x += (dx / dist) * this.speed;
-      this.y += (dy / dist) * this.speed;
+      this.y += (dy / dist + weave) * this.speed;
     } else {
       this.setState(EntityState.IDLE);
-      // BossTwo (Phase 5) attacks slower than BossOne (Phase 3)
-      const bossInterval = this.maxHp >= 500 ? 35 : 20;
-      if (this.aiTick % (this.isBoss ? bossInterval : 40) === 0) {
-        this.nextAttackType = Math.random() > 0.4 ? EntityState.ATTACKING_JAB : EntityState.ATTACKING_STRAIGHT;
-        this.setState(EntityState.WINDING_UP);
-        this.windupTimer = this.maxHp >= 500 ? 20 : 15;
+      if (this.aiTick % this.attackInterval === 0) {
+        if (this.archetype.behavior === 'grappler' && this.grabCooldown === 0) {
+          this.queueAttack('grab', EntityState.ATTACKING_STRAIGHT);
+        } else {
+          const roll = this.rng.next();
+          if (this.archetype.behavior === 'guard' && roll < SWEEP_CHANCE) this.queueAttack('sweep', EntityState.ATTACKING_STRAIGHT);
+          else this.queueAttack('strike', roll > 0.4 ? EntityState.ATTACKING_JAB : EntityState.ATTACKING_STRAIGHT);
+        }
       }
     }
   }
 
+  protected queueAttack(action: 'strike' | 'sweep' | 'grab' | 'throw', attackState: EntityState) {
+    this.pendingAction = action;
+    this.nextAttackType = attackState;
+    this.setState(EntityState.WINDING_UP);
+    this.windupTimer = this.windupTime;
+  }
+
+  /** True while a special pattern owns the enemy (no chasing or normal attacks) */
+  protected isBusy(): boolean {
+    return false;
+  }
+
+  /** Chance to start a special pattern this tick; returns true if one started */
+  protected tryPattern(_dx: number, _dy: number, _dist: number): boolean {
+    return false;
+  }
+
+  /**
+   * SECTION: THROWER ROUTINE
+   * Summary: Keeps a comfortable distance, lines up vertically with the target
+   * and lobs a bottle whenever the throw is off cooldown.
+   */
+  private updateThrower(dx: number, dy: number, dist: number) {
+    let mx = 0;
+    if (dist < THROW_MIN_RANGE) mx = -Math.sign(dx);
+    else if (dist > THROW_MAX_RANGE) mx = Math.sign(dx);
+    if (this.x < THROW_EDGE_MARGIN) mx = 1;
+    else if (this.x > WORLD_WIDTH - THROW_EDGE_MARGIN) mx = -1;
+    else if (this.x + mx * this.speed < THROW_EDGE_MARGIN || this.x + mx * this.speed > WORLD_WIDTH - THROW_EDGE_MARGIN) mx = 0;
+    const my = Math.abs(dy) > 20 ? Math.sign(dy) * 0.6 : 0;
+
+    this.facing = dx > 0 ? 1 : -1;
+    if (mx !== 0 || my !== 0) {
+      this.setState(EntityState.WALKING);
+      this.x += mx * this.speed;
+      this.y += my * this.speed;
+    } else {
+      this.setState(EntityState.IDLE);
+    }
+    const onScreen = this.x >= THROW_EDGE_MARGIN && this.x <= WORLD_WIDTH - THROW_EDGE_MARGIN;
+    if (onScreen && this.aiTick % this.attackInterval === 0 && dist >= THROW_MIN_RANGE * 0.8) {
+      this.queueAttack('throw', EntityState.ATTACKING_JAB);
+    }
+  }
+
+  private throwBottle() {
+    if (!this.target) return;
+    const angle = Math.atan2((this.target.y - 30) - (this.y - 50), this.target.x - this.x);
+    this.projectiles.push({
+      x: this.x,
+      y: this.y - 50,
+      vx: Math.cos(angle) * 6,
+      vy: Math.sin(angle) * 6,
+      life: 90,
+      damage: this.archetype.damage,
+      kind: 'bottle'
+    });
+  }
+
+  /**
+   * SECTION: GRAPPLER HOLD
+   * Summary: While reaching, getGrabHitbox() is live and the engine seizes the
+   * first player it overlaps. The engine drives the hold itself (pinning,
+   * squeeze damage, escapes) and calls release() when it ends.
+   */
+  getGrabHitbox(): Rect | null {
+    if (this.grabReachTimer === 0 || this.grabbed) return null;
+    const reach = 35 * this.scale;
+    const hitW = this.width * this.scale * 0.7;
+    return {
+      x: this.facing === 1 ? this.x + hitW / 4 : this.x - hitW / 4 - reach,
+      y: this.y - this.height * this.scale * 0.7,
+      width: reach,
+      height: 50 * this.scale
+    };
+  }
+
+  seize(target: Entity) {
+    this.grabbed = target;
+    this.grabHoldTimer = GRAB_HOLD_TIME;
+    this.grabReachTimer = 0;
+    this.setState(EntityState.IDLE);
+  }
+
+  release() {
+    this.grabbed = null;
+    this.grabHoldTimer = 0;
+    this.grabCooldown = GRAB_COOLDOWN;
+  }
+
+  /**
+   * SECTION: HELD & THROWN
+   * Summary: Players can grab any enemy but a boss. The engine pins a held
+   * enemy in front of its holder; the enemy breaks free once escapeTimer runs
+   * out. A thrown enemy flies straight for THROW_FLIGHT ticks with i-frames
+   * on; the engine resolves what it crashes into and calls land() at the end.
+   */
+  canBeGrabbed(): boolean {
+    if (this.isBoss) return false;
+    return this.state !== EntityState.DEAD && this.state !== EntityState.DODGING
+      && this.state !== EntityState.GRABBED && this.state !== EntityState.THROWN;
+  }
+
+  getGrabbed() {
+    this.setState(EntityState.GRABBED);
+    this.escapeTimer = this.archetype.behavior === 'grappler' ? GRAPPLER_ESCAPE_TIME : ESCAPE_TIME;
+    this.grabReachTimer = 0;
+    this.pendingAction = 'strike';
+    this.vx = 0;
+    this.vy = 0;
+  }
+
+  /** Grab-punch damage that keeps the hold going; false if it missed */
+  punchWhileHeld(amount: number): boolean {
+    if (!this.takeDamage(amount, 0, 0, 0)) return false;
+    if (this.state !== EntityState.DEAD) this.setState(EntityState.GRABBED);
+    return true;
+  }
+
+  /** Slips out of a hold, shoving off from the holder it faces */
+  breakFree() {
+    this.setState(EntityState.IDLE);
+    this.escapeTimer = 0;
+    this.vx = -this.facing * 8;
+    this.invincibleTimer = 20;
+  }
+
+  launch(direction: 1 | -1, slot: number) {
+    this.setState(EntityState.THROWN);
+    this.facing = direction;
+    this.thrownBy = slot;
+    this.stateTimer = THROW_FLIGHT;
+    this.invincibleTimer = THROW_FLIGHT;
+  }
+
+  /** End of a throw: lands open to the impact damage the engine applies */
+  land() {
+    this.setState(EntityState.IDLE);
+    this.stateTimer = 0;
+    this.invincibleTimer = 0;
+    this.thrownBy = null;
+  }
+
+  /**
+   * SECTION: PARRIES
+   * Summary: A melee windup (strike, sweep or grab, not a bottle throw) in
+   * its last `window` ticks can be parried; the attack is cancelled and the
+   * enemy reels in a long HIT stun, open to a grab.
+   */
+  canBeParried(window: number): boolean {
+    return this.state === EntityState.WINDING_UP && !this.isBusy()
+      && this.pendingAction !== 'throw' && this.windupTimer <= window;
+  }
+
+  parried(direction: 1 | -1) {
+    this.windupTimer = 0;
+    this.pendingAction = 'strike';
+    this.setState(EntityState.HIT);
+    this.stateTimer = PARRY_STAGGER;
+    this.vx = direction * (8 / this.scale);
+  }
+
+  /** Guards block jabs that come from the side their shield faces */
+  blocksHit(attackerX: number, isStraight: boolean): boolean {
+    if (this.archetype.behavior !== 'guard' || isStraight) return false;
+    if (this.state === EntityState.HIT || this.state === EntityState.DEAD) return false;
+    return (attackerX - this.x) * this.facing > 0;
+  }
+
+  /** Only strikes and sweeps carry a melee hitbox; grabs and throws use their own */
+  getAttackHitbox(): Rect | null {
+    if (this.pendingAction !== 'strike' && this.pendingAction !== 'sweep') return null;
+    const box = super.getAttackHitbox();
+    if (!box || this.pendingAction === 'strike') return box;
+    // Sweeps keep the straight's reach but only come up to the shins
+    const height = SWEEP_HEIGHT * this.scale;
+    return { ...box, y: this.y - this.z - height, height };
+  }
+
   /**
    * SECTION: DEFENSIVE LOGIC
    * Summary: Random chance to dodge player attacks when in close proximity.
    */
   tryDodge(): boolean {
     if (this.dodgeCooldown > 0 || this.state === EntityState.DEAD || this.state === EntityState.DODGING) return false;
-    if (Math.random() < (this.isBoss ? 0.35 : 0.12)) {
+    if (this.state === EntityState.GRABBED || this.state === EntityState.THROWN) return false;
+    if (this.rng.chance(this.dodgeChance)) {
       this.setState(EntityState.DODGING);
       this.stateTimer = 25;
       this.invincibleTimer = 25;
@@ -226,58 +469,25 @@ export class Enemy extends Entity {
    */
   update() {
     if (this.dodgeCooldown > 0) this.dodgeCooldown--;
+    if (this.lungeCooldown > 0) this.lungeCooldown--;
+    if (this.grabCooldown > 0) this.grabCooldown--;
+    if (this.grabReachTimer > 0) this.grabReachTimer--;
+    if (this.grabHoldTimer > 0) this.grabHoldTimer--;
 
     if (this.state === EntityState.DODGING) {
       this.x += this.facing * (this.speed * 2.8);
+    } else if (this.state === EntityState.THROWN) {
+      this.x += this.facing * THROW_SPEED;
     }
 
-    if (this.state === EntityState.WINDING_UP && !this.isChargingBlast && !this.blastActive) {
+    if (this.state === EntityState.WINDING_UP && !this.isBusy()) {
       this.windupTimer--;
-      if (this.windupTimer <= 0) this.setState(this.nextAttackType);
-    }
-
-    // Handle Blast Cycle
-    if (this.isChargingBlast) {
-      this.blastChargeTimer--;
-      if (this.blastChargeTimer <= 0) {
-        this.isChargingBlast = false;
-        this.blastActive = true;
-        this.blastRadius = 0;
-        this.blastCooldown = 350;
-      }
-    }
-    if (this.blastActive) {
-      // Keep the special animation playing during blast
-      if (this.state !== EntityState.WINDING_UP) {
-        this.setState(EntityState.WINDING_UP);
-      }
-      this.blastRadius += (this.MAX_BLAST_RADIUS * this.scale) / 60;
-      if (this.blastRadius > this.MAX_BLAST_RADIUS * this.scale) {
-          this.blastActive = false;
-          this.blastRadius = 0;
-      }
-    }
-    if (this.blastCooldown > 0) this.blastCooldown--;
-
-    // Handle Projectile Cycle
-    if (this.isCastingProjectiles) {
-      this.castTimer--;
-      if (this.castTimer % 30 === 0 && this.castTimer > 0) {
-          const angle = Math.atan2(this.target!.y - this.y, this.target!.x - this.x);
-          this.projectiles.push({
-              x: this.x,
-              y: this.y - 45,
-              vx: Math.cos(angle) * 5,
-              vy: Math.sin(angle) * 5,
-              life: 140
-          });
-      }
-      if (this.castTimer <= 0) {
-          this.isCastingProjectiles = false;
-          this.projectileCooldown = 500;
+      if (this.windupTimer <= 0) {
+        this.setState(this.nextAttackType);
+        if (this.pendingAction === 'grab') this.grabReachTimer = GRAB_REACH_TIME;
+        else if (this.pendingAction === 'throw') this.throwBottle();
       }
     }
-    if (this.projectileCooldown > 0) this.projectileCooldown--;
 
     // Move existing projectiles
     this.projectiles.forEach((p, idx) => {
@@ -285,7 +495,7 @@ export class Enemy extends Entity {
         p.y += p.vy;
         p.life--;
         // Slight homing
-        if (this.target && p.life > 60) {
+        if (p.kind === 'orb' && p.reflectedBy === undefined && this.target && p.life > 60) {
             const tx = this.target.x - p.x;
             const ty = (this.target.y - 30) - p.y;
             const dist = Math.sqrt(tx*tx + ty*ty);
@@ -300,11 +510,28 @@ export class Enemy extends Entity {
 
   /**
    * SECTION: RENDERING
-   * Summary: Draws Boss-specific warning indicators and ability visuals.
+   * Summary: Draws projectiles, then the body (bosses layer their telegraphs
+   * around it in drawBody).
    */
   draw(ctx: CanvasRenderingContext2D) {
     // Projectile visuals
     this.projectiles.forEach(p => {
+        if (p.kind === 'bottle') {
+          ctx.save();
+          ctx.translate(p.x, p.y);
+          ctx.rotate(p.life * 0.35);
+          ctx.fillStyle = '#15803d';
+          ctx.strokeStyle = '#000000';
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.roundRect(-4, -9, 8, 18, 3);
+          ctx.fill();
+          ctx.stroke();
+          ctx.fillStyle = '#fef3c7';
+          ctx.fillRect(-2, -13, 4, 5);
+          ctx.restore();
+          return;
+        }
         const glow = ctx.createRadialGradient(p.x, p.y, 0, p.x, p.y, 20);
         glow.addColorStop(0, '#f472b6');
         glow.addColorStop(1, 'rgba(244, 114, 182, 0)');
@@ -318,45 +545,80 @@ export class Enemy extends Entity {
         ctx.fill();
     });
 
-    // Special: Blast telegraph and active wave
-    if (this.isChargingBlast) {
-        // Red ground telegraph circle
-        const opacity = Math.abs(Math.sin(Date.now() / 100)) * 0.5;
-        ctx.fillStyle = `rgba(239, 68, 68, ${opacity})`;
+    this.drawBody(ctx);
+  }
+
+  protected drawBody(ctx: CanvasRenderingContext2D) {
+    super.draw(ctx);
+    if (this.state !== EntityState.DEAD) this.drawAccessory(ctx);
+    if (this.pendingAction === 'sweep' && this.state === EntityState.ATTACKING_STRAIGHT) this.drawSweep(ctx);
+  }
+
+  /** A spray of sand along the ground so a sweep reads as low */
+  private drawSweep(ctx: CanvasRenderingContext2D) {
+    const s = this.scale;
+    const reach = 60 * s;
+    ctx.save();
+    ctx.strokeStyle = 'rgba(253, 230, 138, 0.8)';
+    ctx.lineWidth = 4 * s;
+    ctx.beginPath();
+    ctx.ellipse(this.x + this.facing * reach / 2, this.y - 4 * s, reach * 0.7, 10 * s, 0, Math.PI, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * SECTION: ARCHETYPE ACCESSORIES
+   * Summary: Small props layered over the procedural body so each archetype
+   * reads at a glance: shields, bottles, wrestling belts and headbands.
+   */
+  private drawAccessory(ctx: CanvasRenderingContext2D) {
+    const s = this.scale;
+    const h = this.height * s;
+    const w = this.width * s;
+    ctx.save();
+    ctx.translate(this.x, this.y);
+    if (this.facing === -1) ctx.scale(-1, 1);
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 2 * s;
+
+    switch (this.archetype.accessory) {
+      case 'shield':
+        ctx.fillStyle = '#cbd5e1';
         ctx.beginPath();
-        ctx.ellipse(this.x, this.y, this.MAX_BLAST_RADIUS * this.scale, (this.MAX_BLAST_RADIUS * this.scale) * 0.4, 0, 0, Math.PI * 2);
+        ctx.roundRect(w / 2 - 2 * s, -h * 0.8, 10 * s, h * 0.6, 3 * s);
         ctx.fill();
-        
-        ctx.strokeStyle = '#ef4444';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.ellipse(this.x, this.y, this.MAX_BLAST_RADIUS * this.scale, (this.MAX_BLAST_RADIUS * this.scale) * 0.4, 0, 0, Math.PI * 2);
         ctx.stroke();
+        break;
+      case 'bottle':
+        // Held overhead while winding up a throw
+        if (this.state === EntityState.WINDING_UP) {
+          ctx.fillStyle = '#15803d';
+          ctx.beginPath();
+          ctx.roundRect(-4 * s, -h - 24 * s, 8 * s, 18 * s, 3 * s);
+          ctx.fill();
+          ctx.stroke();
+        }
+        break;
+      case 'belt':
+        ctx.fillStyle = '#facc15';
+        ctx.fillRect(-w / 2, -h * 0.42, w, 7 * s);
+        ctx.strokeRect(-w / 2, -h * 0.42, w, 7 * s);
+        break;
+      case 'headband':
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(-w / 2 + 5 * s, -h - 2 * s, w - 10 * s, 5 * s);
+        ctx.fillRect(-w / 2 - 2 * s, -h, 8 * s, 3 * s);
+        break;
     }
+    ctx.restore();
 
-    if (this.blastActive) {
-      const progress = 1 - (this.blastRadius / (this.MAX_BLAST_RADIUS * this.scale));
-      ctx.strokeStyle = `rgba(255, 255, 0, ${progress})`;
-      ctx.lineWidth = 8;
-      ctx.beginPath();
-      ctx.ellipse(this.x, this.y, this.blastRadius, this.blastRadius * 0.4, 0, 0, Math.PI * 2);
-      ctx.stroke();
-    }
-
-    // Warning UI
-    if (this.isChargingBlast || this.isCastingProjectiles) {
-        ctx.save();
-        ctx.translate(Math.sin(Date.now() / 20) * 4, 0); // Shake boss
-        super.draw(ctx);
-        ctx.restore();
-        ctx.fillStyle = '#ff0000';
-        ctx.font = 'bold 12px "Press Start 2P"';
-        ctx.textAlign = 'center';
-        ctx.fillText('WARNING!', this.x, this.y - this.height * this.scale - 40);
-        return;
+    if (this.grabbed) {
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 10px "Press Start 2P"';
+      ctx.textAlign = 'center';
+      ctx.fillText('MASH TO ESCAPE!', this.x, this.y - h - 30 * s);
     }
-
-    super.draw(ctx);
   }
 
   protected getColor(): string {
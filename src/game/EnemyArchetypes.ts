@@ -0,0 +1,96 @@
+import type { DropTable } from './Pickups';
+
+/**
+ * SECTION: ENEMY ARCHETYPES
+ * Summary: Every enemy is built from a named archetype that sets its stats,
+ * the AI routine it runs and the accessory drawn on its procedural body.
+ * Level rosters refer to archetypes by name; new ones are added with
+ * registerArchetype().
+ */
+export type EnemyBehavior =
+  | 'brawler'   // chase and punch
+  | 'rusher'    // weaves in fast and lunges from mid range
+  | 'grappler'  // grabs a player, squeezes, then throws them
+  | 'thrower'   // keeps its distance and lobs bottles
+  | 'guard';    // shield blocks jabs from the front
+
+export type EnemyAccessory = 'shield' | 'bottle' | 'belt' | 'headband';
+
+export interface EnemyArchetype {
+  name: string;
+  behavior: EnemyBehavior;
+  hp: number;
+  /** Movement speed is rolled between these bounds */
+  speed: [number, number];
+  scale: number;
+  color: string;
+  accessory: EnemyAccessory | null;
+  /** Ticks between attack attempts while in range */
+  attackInterval: number;
+  /** Telegraph length before an attack lands */
+  windup: number;
+  /** Damage of a melee hit, grab squeeze or thrown bottle */
+  damage: number;
+  /** Chance to sidestep a player's swing */
+  dodgeChance: number;
+  /** Chaos awarded for the kill (before the multiplier) */
+  chaos: number;
+  /** What the enemy may leave behind when defeated (see Pickups.ts) */
+  drops?: DropTable;
+}
+
+const registry = new Map<string, EnemyArchetype>();
+
+export function registerArchetype(archetype: EnemyArchetype) {
+  registry.set(archetype.name, archetype);
+}
+
+export function hasArchetype(name: string): boolean {
+  return registry.has(name);
+}
+
+export function getArchetype(name: string): EnemyArchetype {
+  const archetype = registry.get(name);
+  if (!archetype) throw new Error(`Unknown enemy archetype "${name}"`);
+  return archetype;
+}
+
+export function listArchetypes(): EnemyArchetype[] {
+  return [...registry.values()];
+}
+
+const BUILT_IN: EnemyArchetype[] = [
+  {
+    name: 'brawler', behavior: 'brawler', hp: 30, speed: [1.5, 3.5], scale: 1, color: '#ef4444',
+    accessory: null, attackInterval: 40, windup: 15, damage: 6, dodgeChance: 0.12, chaos: 20,
+    drops: { chance: 0.15, items: { food: 3, booster: 1, power: 1, haste: 1 } },
+  },
+  {
+    name: 'rusher', behavior: 'rusher', hp: 18, speed: [3.5, 4.5], scale: 0.9, color: '#f59e0b',
+    accessory: 'headband', attackInterval: 24, windup: 8, damage: 4, dodgeChance: 0.2, chaos: 20,
+    drops: { chance: 0.15, items: { haste: 3, food: 1 } },
+  },
+  {
+    name: 'grappler', behavior: 'grappler', hp: 55, speed: [1.2, 2], scale: 1.2, color: '#16a34a',
+    accessory: 'belt', attackInterval: 50, windup: 22, damage: 3, dodgeChance: 0.05, chaos: 35,
+    drops: { chance: 0.3, items: { food: 3, power: 2 } },
+  },
+  {
+    name: 'thrower', behavior: 'thrower', hp: 24, speed: [2, 3], scale: 0.95, color: '#0ea5e9',
+    accessory: 'bottle', attackInterval: 100, windup: 20, damage: 7, dodgeChance: 0.15, chaos: 25,
+    drops: { chance: 0.2, items: { refill: 2, booster: 2, food: 1 } },
+  },
+  {
+    name: 'guard', behavior: 'guard', hp: 40, speed: [1.2, 2.2], scale: 1.05, color: '#64748b',
+    accessory: 'shield', attackInterval: 50, windup: 18, damage: 7, dodgeChance: 0, chaos: 30,
+    drops: { chance: 0.25, items: { power: 2, food: 2, booster: 1 } },
+  },
+  // Bosses chase and punch like brawlers; their specials are keyed off BossKind
+  {
+    name: 'boss', behavior: 'brawler', hp: 200, speed: [1.05, 2.45], scale: 2, color: '#fde68a',
+    accessory: null, attackInterval: 20, windup: 15, damage: 6, dodgeChance: 0.35, chaos: 750,
+    drops: { chance: 1, items: { food: 2, refill: 1 } },
+  },
+];
+
+BUILT_IN.forEach(registerArchetype);
@@ -1,30 +1,47 @@
-import { EntityState, Rect } from '../types';
+import { EntityState, type Rect } from '../types';
 import { SpriteManager } from './SpriteManager';
+import { Random } from './Random';
+import type { EntitySnapshot } from './SaveGame';
 
 /**
  * SECTION: ANIMATION CONFIGURATION
  * Summary: Defines the frame count, animation speed, and whether the state loops.
  * 'activeFrames' is crucial for combat: it specifies exactly which frames 
  * in an attack animation can deal damage, preventing "active-forever" hitboxes.
+ * 'cancelFrame' opens the combo window: from that frame on, a buffered follow-up
+ * attack may interrupt the rest of the animation (see Combos.ts).
  */
 export interface AnimationConfig {
   frames: number;
   speed: number;
   loop: boolean;
   activeFrames?: number[]; 
+  cancelFrame?: number;
 }
 
 export const ANIMATION_DATA: Record<EntityState, AnimationConfig> = {
   [EntityState.IDLE]: { frames: 6, speed: 10, loop: true },
   [EntityState.WALKING]: { frames: 6, speed: 8, loop: true },
-  [EntityState.ATTACKING_JAB]: { frames: 6, speed: 5, loop: false, activeFrames: [2, 3] },
-  [EntityState.ATTACKING_STRAIGHT]: { frames: 6, speed: 6, loop: false, activeFrames: [2, 3, 4] },
+  [EntityState.ATTACKING_JAB]: { frames: 6, speed: 5, loop: false, activeFrames: [2, 3], cancelFrame: 4 },
+  [EntityState.ATTACKING_STRAIGHT]: { frames: 6, speed: 6, loop: false, activeFrames: [2, 3, 4], cancelFrame: 5 },
   [EntityState.WINDING_UP]: { frames: 5, speed: 10, loop: true },
   [EntityState.DODGING]: { frames: 4, speed: 5, loop: false },
   [EntityState.HIT]: { frames: 2, speed: 10, loop: false },
   [EntityState.DEAD]: { frames: 5, speed: 12, loop: false },
+  // Holds and throws end when the engine says so, never with the animation
+  [EntityState.GRABBING]: { frames: 4, speed: 10, loop: true },
+  [EntityState.GRABBED]: { frames: 2, speed: 10, loop: true },
+  [EntityState.THROWN]: { frames: 4, speed: 4, loop: true },
+  // Airborne states end on landing; the flying kick falls back to JUMPING
+  [EntityState.JUMPING]: { frames: 4, speed: 8, loop: true },
+  [EntityState.JUMP_KICK]: { frames: 5, speed: 4, loop: false, activeFrames: [1, 2, 3] },
+  [EntityState.DIVE_KICK]: { frames: 2, speed: 6, loop: true, activeFrames: [0, 1] },
+  [EntityState.GUARDING]: { frames: 2, speed: 12, loop: true },
 };
 
+/** Pull on z per tick */
+export const GRAVITY = 0.6;
+
 /**
  * Maps an EntityState to a sprite key and optionally overrides the frame count.
  */
@@ -47,6 +64,18 @@ export class Entity {
   
   vx: number = 0;
   vy: number = 0;
+
+  /**
+   * Height above the ground. x and y place the feet on the ground plane (y is
+   * lane depth); z lifts the body off it, pulled back down by GRAVITY.
+   */
+  z: number = 0;
+  vz: number = 0;
+
+  // Position at the start of the current tick, used for render interpolation
+  prevX: number;
+  prevY: number;
+  prevZ: number = 0;
   
   stateTimer: number = 0;
   invincibleTimer: number = 0;
@@ -54,16 +83,24 @@ export class Entity {
   currentFrame: number = 0;
   animationTick: number = 0;
 
+  /** Session PRNG shared with the engine; all gameplay rolls go through it */
+  protected rng: Random;
+
   /** Optional sprite manager for sprite-based rendering */
   protected spriteManager: SpriteManager | null = null;
   /** Maps EntityState → sprite key for sprite-based rendering */
   protected spriteStateMap: Map<EntityState, SpriteStateMapping> = new Map();
   /** Scale multiplier for the rendered sprite size */
   protected spriteScale: number = 1.0;
+  /** Optional canvas filter (e.g. hue-rotate) used to tint sprites */
+  protected spriteFilter: string | null = null;
 
-  constructor(x: number, y: number, hp: number) {
+  constructor(x: number, y: number, hp: number, rng: Random) {
     this.x = x;
     this.y = y;
+    this.prevX = x;
+    this.prevY = y;
+    this.rng = rng;
     this.hp = hp;
     this.maxHp = hp;
   }
@@ -72,17 +109,23 @@ export class Entity {
    * SECTION: PHYSICS & COLLISION HITBOXES
    * Summary: Calculates the rectangular bounds of the entity for physical collisions.
    * Also calculates the 'Attack Hitbox' which is projected forward when attacking.
+   * Both are in screen space, so they rise with z; the engine compares heights
+   * above each fighter's own ground line separately (see GameEngine.checkHit).
    */
+  get isAirborne(): boolean {
+    return this.z > 0 || this.vz > 0;
+  }
+
   getHitbox(): Rect {
     const w = this.width * this.scale;
     const h = this.height * this.scale;
-    // Hitbox is centered on x, anchored at feet (this.y)
+    // Hitbox is centered on x, anchored at feet (this.y) and lifted by z
     // Shrink hitbox slightly inward so it matches the character body, not full sprite
     const hitW = w * 0.7;
     const hitH = h * 0.85;
     return {
       x: this.x - hitW / 2,
-      y: this.y - hitH,
+      y: this.y - this.z - hitH,
       width: hitW,
       height: hitH
     };
@@ -94,16 +137,30 @@ export class Entity {
     // Only return a hitbox if the current animation frame is 'active' for damage
     if (!config.activeFrames.includes(this.currentFrame)) return null;
 
+    const hitW = this.width * this.scale * 0.7;
+    const feet = this.y - this.z;
+
+    // Kicks strike low: the flying kick down past the feet, the dive further below them
+    if (this.state === EntityState.JUMP_KICK || this.state === EntityState.DIVE_KICK) {
+      const diving = this.state === EntityState.DIVE_KICK;
+      const reach = (diving ? 40 : 50) * this.scale;
+      return {
+        x: this.facing === 1 ? this.x : this.x - reach,
+        y: feet - (diving ? 20 : 30) * this.scale,
+        width: reach,
+        height: (diving ? 50 : 60) * this.scale
+      };
+    }
+
     // Attack reach: Jab is short-range, Straight is longer
     const baseReach = this.state === EntityState.ATTACKING_JAB ? 40 : 60;
     const reach = baseReach * this.scale;
     const hWidth = reach;
     const hHeight = 40 * this.scale;
-    const hitW = this.width * this.scale * 0.7;
     
     return {
       x: this.facing === 1 ? this.x + hitW / 4 : this.x - hitW / 4 - hWidth,
-      y: this.y - this.height * this.scale * 0.65,
+      y: feet - this.height * this.scale * 0.65,
       width: hWidth,
       height: hHeight
     };
@@ -125,15 +182,16 @@ export class Entity {
    * SECTION: COMBAT LOGIC
    * Summary: Processes incoming damage, applies knockback velocity, and manages 
    * invincibility frames (i-frames) to prevent single-frame death loops.
+   * Combo hits pass a stronger knockback and shorter i-frames so links can connect.
    */
-  takeDamage(amount: number, knockbackDir: number = 0) {
+  takeDamage(amount: number, knockbackDir: number = 0, knockback: number = 12, invincibility: number = 30) {
     if (this.invincibleTimer > 0 || this.state === EntityState.DEAD) return false;
     
     this.hp -= amount;
     this.setState(EntityState.HIT);
     this.stateTimer = 15;
-    this.invincibleTimer = 30;
-    this.vx = knockbackDir * (12 / this.scale); 
+    this.invincibleTimer = invincibility;
+    this.vx = knockbackDir * (knockback / this.scale); 
     
     if (this.hp <= 0) {
       this.hp = 0;
@@ -142,10 +200,42 @@ export class Entity {
     return true;
   }
 
+  /**
+   * SECTION: SAVE STATE
+   * Summary: Physical and animation state shared by every actor; subclasses
+   * extend it with their own fields (see SaveGame.ts).
+   */
+  protected snapshotEntity(): EntitySnapshot {
+    const { x, y, z, hp, maxHp, state, facing, speed, scale, vx, vy, vz, stateTimer, invincibleTimer, currentFrame, animationTick } = this;
+    return { x, y, z, hp, maxHp, state, facing, speed, scale, vx, vy, vz, stateTimer, invincibleTimer, currentFrame, animationTick };
+  }
+
+  protected restoreEntity(s: EntitySnapshot) {
+    this.x = s.x;
+    this.y = s.y;
+    this.z = s.z;
+    this.hp = s.hp;
+    this.maxHp = s.maxHp;
+    this.state = s.state;
+    this.facing = s.facing;
+    this.speed = s.speed;
+    this.scale = s.scale;
+    this.vx = s.vx;
+    this.vy = s.vy;
+    this.vz = s.vz;
+    this.stateTimer = s.stateTimer;
+    this.invincibleTimer = s.invincibleTimer;
+    this.currentFrame = s.currentFrame;
+    this.animationTick = s.animationTick;
+    this.savePosition();
+  }
+
   /**
    * SECTION: UPDATE CYCLE
    * Summary: Advances position based on velocity (physics) and increments the 
    * animation frame based on the 'speed' defined in ANIMATION_DATA.
+   * Anything off the ground falls under GRAVITY and calls onLanding() when it
+   * touches down.
    */
   update() {
     if (this.invincibleTimer > 0) this.invincibleTimer--;
@@ -156,6 +246,16 @@ export class Entity {
     this.vx *= 0.8;
     this.vy *= 0.8;
 
+    if (this.isAirborne) {
+      this.z += this.vz;
+      this.vz -= GRAVITY;
+      if (this.z <= 0) {
+        this.z = 0;
+        this.vz = 0;
+        this.onLanding();
+      }
+    }
+
     const config = ANIMATION_DATA[this.state];
     this.animationTick++;
     if (this.animationTick >= config.speed) {
@@ -182,6 +282,39 @@ export class Entity {
     }
   }
 
+  /** Called on the tick a fall reaches the ground */
+  protected onLanding() {}
+
+  /**
+   * SECTION: RENDER INTERPOLATION
+   * Summary: The simulation runs at a fixed 60Hz while the display may refresh
+   * faster. savePosition() is called before every tick; drawInterpolated() then
+   * draws the entity between its previous and current position (alpha 0..1).
+   * While drawing, y is the lifted feet (y - z) so everything drawn at the
+   * feet rises with the body; shadows go back down to y + z, the ground line.
+   */
+  savePosition() {
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.prevZ = this.z;
+  }
+
+  drawInterpolated(ctx: CanvasRenderingContext2D, alpha: number) {
+    const { x, y, z } = this;
+    this.x = this.prevX + (x - this.prevX) * alpha;
+    this.z = this.prevZ + (z - this.prevZ) * alpha;
+    this.y = this.prevY + (y - this.prevY) * alpha - this.z;
+    this.draw(ctx);
+    this.x = x;
+    this.y = y;
+    this.z = z;
+  }
+
+  /** Shadows shrink as the entity rises */
+  protected get shadowScale(): number {
+    return Math.max(0.4, 1 - this.z / 200);
+  }
+
   /**
    * SECTION: RENDERING
    * Summary: Tries sprite-based rendering first; falls back to procedural drawing
@@ -195,12 +328,12 @@ export class Entity {
         const isInvincible = this.invincibleTimer > 0;
         const flickerAlpha = isInvincible ? (Math.floor(Date.now() / 50) % 2 === 0 ? 0.3 : 1) : 1;
 
-        // Draw shadow aligned to feet
+        // Draw shadow aligned to feet, on the ground line
         const s = this.scale;
-        const shadowW = this.width * s * 0.5;
+        const shadowW = this.width * s * 0.5 * this.shadowScale;
         ctx.fillStyle = 'rgba(0,0,0,0.2)';
         ctx.beginPath();
-        ctx.ellipse(this.x, this.y, shadowW, 5 * s, 0, 0, Math.PI * 2);
+        ctx.ellipse(this.x, this.y + this.z, shadowW, 5 * s * this.shadowScale, 0, 0, Math.PI * 2);
         ctx.fill();
 
         // Handle HIT shake
@@ -209,6 +342,9 @@ export class Entity {
           drawX += Math.sin(Date.now() / 20) * 4;
         }
 
+        ctx.save();
+        if (this.spriteFilter) ctx.filter = this.spriteFilter;
+
         // Handle DEAD rotation — draw falling sprite
         if (this.state === EntityState.DEAD) {
           const fall = (this.currentFrame / 4);
@@ -228,6 +364,7 @@ export class Entity {
             drawX, this.y, this.facing, this.spriteScale, flickerAlpha
           );
         }
+        ctx.restore();
 
         // HP Bar above character — positioned relative to sprite height
         if (this.hp < this.maxHp && this.hp > 0) {
@@ -257,10 +394,10 @@ export class Entity {
     const h = this.height * this.scale;
     const s = this.scale;
     
-    // Draw Shadow
+    // Draw Shadow on the ground line
     ctx.fillStyle = 'rgba(0,0,0,0.2)';
     ctx.beginPath();
-    ctx.ellipse(this.x, this.y, w / 1.5, 6 * s, 0, 0, Math.PI * 2);
+    ctx.ellipse(this.x, this.y + this.z, (w / 1.5) * this.shadowScale, 6 * s * this.shadowScale, 0, 0, Math.PI * 2);
     ctx.fill();
 
     const isInvincible = this.invincibleTimer > 0;
@@ -328,6 +465,48 @@ export class Entity {
         ctx.translate(Math.sin(Date.now() / 20) * 4, 0);
         headY -= 5 * s;
         break;
+      case EntityState.GRABBING:
+        bodyLean = 0.1;
+        armLX += 22 * s;
+        armRX += 18 * s;
+        break;
+      case EntityState.GRABBED:
+        ctx.translate(Math.sin(Date.now() / 40) * 2, 0);
+        headY -= 3 * s;
+        armLY -= 8 * s;
+        armRY -= 8 * s;
+        break;
+      case EntityState.THROWN:
+        ctx.translate(0, -h / 2);
+        ctx.rotate(this.currentFrame * Math.PI / 2);
+        ctx.translate(0, h / 2);
+        break;
+      case EntityState.JUMPING:
+        legLY -= 10 * s;
+        legRY -= 6 * s;
+        armLY -= 10 * s;
+        armRY -= 10 * s;
+        break;
+      case EntityState.JUMP_KICK:
+        bodyLean = -0.15;
+        legLY -= 10 * s;
+        legRX += 24 * s;
+        legRY -= 16 * s;
+        break;
+      case EntityState.DIVE_KICK:
+        bodyLean = 0.35;
+        legLY -= 12 * s;
+        legRX += 18 * s;
+        legRY += 6 * s;
+        armLY -= 6 * s;
+        break;
+      case EntityState.GUARDING:
+        bodyLean = -0.05;
+        armLX += 16 * s;
+        armLY -= 14 * s;
+        armRX += 8 * s;
+        armRY -= 16 * s;
+        break;
       case EntityState.DEAD:
         const fall = (this.currentFrame / 4);
         ctx.rotate(fall * Math.PI / 2);
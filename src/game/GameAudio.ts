@@ -0,0 +1,57 @@
+import { audioManager, ThemeType } from './AudioManager';
+import { GameEventBus } from './GameEvents';
+
+/**
+ * SECTION: GAMEPLAY SFX
+ * Summary: Maps engine events to sound effects, keeping the simulation itself
+ * silent (and headless). Returns a function that unsubscribes everything.
+ */
+export function bindGameAudio(events: GameEventBus): () => void {
+  const unsubscribers = [
+    events.on('specialFired', () => audioManager.playSFX(200, 'sawtooth', 0.5)),
+    events.on('attackBlocked', () => audioManager.playSFX(900, 'square', 0.05)),
+    events.on('attackGuarded', ({ broken }) => broken
+      ? audioManager.playSFX(90, 'sawtooth', 0.3)
+      : audioManager.playSFX(600, 'square', 0.05)),
+    events.on('attackParried', () => audioManager.playSFX(1200, 'triangle', 0.2)),
+    events.on('enemyHit', () => audioManager.playHit()),
+    events.on('playerDamaged', () => audioManager.playHit()),
+    events.on('playerGrabbed', () => audioManager.playSFX(140, 'square', 0.15)),
+    events.on('enemyGrabbed', () => audioManager.playSFX(180, 'square', 0.08)),
+    events.on('enemyThrown', () => audioManager.playSFX(260, 'sawtooth', 0.15)),
+    events.on('playerRevived', () => audioManager.playSFX(660, 'triangle', 0.3)),
+    events.on('pickupCollected', () => audioManager.playSFX(880, 'triangle', 0.12)),
+    events.on('propThrown', () => audioManager.playSFX(320, 'triangle', 0.1)),
+    events.on('propBroken', () => audioManager.playSFX(110, 'sawtooth', 0.2)),
+  ];
+  return () => unsubscribers.forEach(off => off());
+}
+
+/**
+ * SECTION: RUN MUSIC
+ * Summary: Follows the run's events to pick the track: the level's phase and
+ * boss themes, the menu theme while paused, then defeat or victory. Starts on
+ * the track the run is on when bound (a continued save may be mid-boss).
+ */
+export function bindGameMusic(events: GameEventBus, initial: ThemeType): () => void {
+  let track = initial;
+  let paused = false;
+  const play = () => audioManager.playTheme(paused ? ThemeType.MENU : track, true);
+  const switchTo = (next: ThemeType) => {
+    track = next;
+    play();
+  };
+  const unsubscribers = [
+    events.on('phaseStarted', ({ music }) => switchTo(music)),
+    events.on('bossSpawned', ({ music }) => switchTo(music)),
+    events.on('bossDefeated', ({ music }) => switchTo(music)),
+    events.on('gameOver', () => switchTo(ThemeType.DEFEAT)),
+    events.on('victory', () => switchTo(ThemeType.VICTORY)),
+    events.on('pauseToggled', ({ paused: next }) => {
+      paused = next;
+      play();
+    }),
+  ];
+  play();
+  return () => unsubscribers.forEach(off => off());
+}
@@ -1,30 +1,119 @@
 
 import { Player } from './Player';
 import { Enemy } from './Enemy';
-import { EntityState, GameStats, PHASE_TARGETS, Rect } from '../types';
-import { audioManager } from './AudioManager';
+import { EMPTY_INPUT, EntityState, type GameStats, type InputSnapshot, type Rect, WORLD_WIDTH } from '../types';
+import { Random } from './Random';
+import { type ReplayData, ReplayRecorder } from './Replay';
+import { type BossDefinition, DEFAULT_LEVEL, type EnemySpawn, type LevelDefinition, type PhaseDefinition } from './Levels';
+import { getArchetype } from './EnemyArchetypes';
+import { Boss } from './Boss';
+import { createBoss } from './Bosses';
+import { type DamageSource, GameEventBus } from './GameEvents';
+import { GAME_VERSION } from '../types';
+import { SAVE_FORMAT, type SaveData } from './SaveGame';
+import { type RunStats, RunStatsTracker } from './RunStats';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, type DifficultyPreset, applyDifficulty } from './Difficulty';
+import type { DifficultyId, GameMode, PickupKind } from '../types';
+import { endlessWave } from './Endless';
+import { bossRushLevel } from './BossRush';
+import {
+  BOOSTER_CHAOS_MULTIPLIER, FOOD_HEAL, PICKUP_TYPES, type Pickup, createPickup, getPickupHitbox, rollDrop
+} from './Pickups';
+import { Prop } from './Props';
+import type { ThemeType } from './AudioManager';
 
 /**
  * SECTION: GAME ENGINE
- * Summary: The heart of the application. Manages the main game loop, 
- * coordinate boundaries, enemy spawning, and collision detection.
+ * Summary: The heart of the application. A headless simulation that owns the
+ * players, enemies, chaos scoring and phase progression. It never touches the
+ * DOM: callers feed it one InputSnapshot per player and advance it one tick at
+ * a time with step(). Rendering and keyboard handling live in optional adapters
+ * (CanvasRenderer, KeyboardInput) wired together by GameRunner. Phase content
+ * (targets, rosters, bosses) comes from a LevelDefinition. Everything worth
+ * reacting to (hits, kills, phase and boss milestones, the per-tick stats
+ * snapshot) is published on `events`; audio and the HUD subscribe there.
  */
+/** Enemy i-frames after a melee hit; short enough for combo links to connect */
+const MELEE_INVINCIBILITY = 12;
+/** Thrown props and enemies only hit enemies standing this close to their lane */
+const THROW_LANE_DEPTH = 30;
+const THROW_KNOCKBACK = 14;
+// Player holds: grab reach (GRAB on a stunned enemy) and lane depth, how far in
+// front the enemy is pinned, punch damage, punches before it is knocked loose
+const GRAB_REACH = 90;
+const GRAB_DEPTH = 20;
+const HOLD_DISTANCE = 36;
+const GRAB_PUNCH_DAMAGE = 6;
+const GRAB_PUNCH_LIMIT = 3;
+// Thrown enemies: damage to each enemy they crash into, and to themselves on landing
+const THROW_IMPACT_DAMAGE = 15;
+const THROW_LANDING_DAMAGE = 12;
+// Boss shockwaves: only the ring's leading edge hurts, and only fighters below this height
+const BLAST_RING_WIDTH = 30;
+const BLAST_CLEARANCE = 30;
+// Guards: chip damage kept from a blocked hit, and meter drained per point of the full hit
+const GUARD_CHIP = 0.2;
+const GUARD_DRAIN = 4;
+// Parries: ticks before a windup lands that a fresh GUARD press catches it, reach
+// and lane depth, the chaos it pays, and reflected orbs' speed and damage scale
+const PARRY_WINDOW = 8;
+const PARRY_REACH = 110;
+const PARRY_DEPTH = 40;
+const PARRY_CHAOS = 25;
+const ORB_PARRY_RANGE = 50;
+const ORB_REFLECT_SPEED = 8;
+const ORB_REFLECT_DAMAGE = 2;
+
+/** Anything with a body standing (or flying) over a ground point: fighters and props */
+interface Body {
+  y: number;
+  z: number;
+  getHitbox(): Rect;
+}
+
+export interface GameEngineOptions {
+  /** Seed for the session PRNG; a random one is picked when omitted */
+  seed?: number;
+  /** 1 for solo, 2 for local co-op */
+  players?: number;
+  /** Phase definitions to play; defaults to the Chaos Beach level */
+  level?: LevelDefinition;
+  /** Difficulty preset; defaults to Normal */
+  difficulty?: DifficultyId;
+  /** Campaign (default), endless waves (see Endless.ts) or the level's bosses back to back (see BossRush.ts) */
+  mode?: GameMode;
+  /** Resume a saved run (its seed, player count, difficulty and mode win over the options above) */
+  save?: SaveData;
+}
+
 export class GameEngine {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private player: Player;
+  private players: Player[] = [];
   private enemies: Enemy[] = [];
-  private keys: Set<string> = new Set();
-  private statsCallback: (stats: GameStats) => void;
+  public readonly events: GameEventBus = new GameEventBus();
+  private rng: Random;
+  private level: LevelDefinition;
+  private difficulty: DifficultyPreset;
+  private mode: GameMode;
+  // Endless waves are generated on demand; the current one is kept
+  private wave: { number: number; definition: PhaseDefinition } | null = null;
+  private recorder: ReplayRecorder;
+  private runStats: RunStatsTracker;
+  private tick: number = 0;
   
   private chaos: number = 0;
   private phase: number = 1;
   private streak: number = 0; 
   private multiplier: number = 1;
+  private maxStreak: number = 0;
+  private maxMultiplier: number = 1;
+
+  // Dropped items on the ground, and ticks left on the team's chaos booster
+  private pickups: Pickup[] = [];
+  private boosterTimer: number = 0;
+  // Breakable scenery of the current phase
+  private props: Prop[] = [];
   
-  private isRunning: boolean = true;
   private isPaused: boolean = false;
-  private animationFrameId: number = 0;
   private isGameOver: boolean = false;
   private isVictory: boolean = false;
   
@@ -34,90 +123,237 @@ export class GameEngine {
 
   private hitstopTimer: number = 0;
 
-  // Delta time for frame-rate independent movement
-  private lastFrameTime: number = 0;
-  private deltaTime: number = 1; // normalized: 1.0 = 60fps
-
   // Visual decorations
   private clouds: {x: number, y: number, s: number}[] = [];
   private palms: {x: number, scale: number}[] = [];
 
-  // Phase background images
-  private backgroundImages: Map<number, HTMLImageElement> = new Map();
+  constructor(options: GameEngineOptions = {}) {
+    const save = options.save;
+    this.rng = new Random(save?.seed ?? options.seed ?? Random.randomSeed());
+    this.difficulty = DIFFICULTIES[save?.difficulty ?? options.difficulty ?? DEFAULT_DIFFICULTY];
+    this.mode = save?.mode ?? options.mode ?? 'campaign';
+    const level = applyDifficulty(options.level ?? DEFAULT_LEVEL, this.difficulty);
+    this.level = this.mode === 'bossRush' ? bossRushLevel(level) : level;
+    this.recorder = new ReplayRecorder(save?.replay);
+    this.runStats = new RunStatsTracker(this.events, { phase: 1, name: this.getPhaseDefinition().name });
 
-  constructor(canvas: HTMLCanvasElement, onStatsUpdate: (stats: GameStats) => void) {
-    this.canvas = canvas;
-    const context = canvas.getContext('2d');
-    if (!context) throw new Error("Could not get canvas context");
-    this.ctx = context;
-    this.statsCallback = onStatsUpdate;
-
-    // Initialize player at a starting ground position
-    this.player = new Player(100, 450);
+    // Initialize players at a starting ground position (co-op partner slightly behind)
+    const playerCount = Math.max(1, Math.min(2, save?.players ?? options.players ?? 1));
+    for (let slot = 0; slot < playerCount; slot++) {
+      const player = new Player(100 - slot * 40, 450 + slot * 60, this.rng, slot);
+      player.showTag = playerCount > 1;
+      this.players.push(player);
+    }
     this.spawnEnemies();
-
-    // Preload phase background images
-    const bgPaths: [number, string][] = [
-      [1, '/background/phaseOneBackground.png'],
-      [2, '/background/PhaseTwoBackground.png'],
-      [3, '/background/PhaseThreeBackground.png'],
-      [4, '/background/phaseFourBackground.png'],
-      [5, '/background/phaseFiveBackground.png'],
-    ];
-    bgPaths.forEach(([phase, path]) => {
-      const img = new Image();
-      img.src = path;
-      this.backgroundImages.set(phase, img);
-    });
+    this.placeProps();
 
     // Setup decorative background elements
     for(let i=0; i<10; i++) {
-        this.clouds.push({ x: Math.random() * 800, y: 30 + Math.random() * 120, s: 0.1 + Math.random() * 0.4 });
-        this.palms.push({ x: i * 120 + Math.random() * 60, scale: 0.8 + Math.random() * 0.4 });
+        this.clouds.push({ x: this.rng.range(0, 800), y: this.rng.range(30, 150), s: this.rng.range(0.1, 0.5) });
+        this.palms.push({ x: i * 120 + this.rng.range(0, 60), scale: this.rng.range(0.8, 1.2) });
     }
+    if (save) this.restore(save);
+  }
+
+  /**
+   * SECTION: SAVE & CONTINUE
+   * Summary: Snapshots the whole simulation (see SaveGame.ts). Restoring
+   * rebuilds every enemy from its archetype or boss kind, then overwrites its
+   * state; the PRNG position is restored last since building enemies rolls it.
+   */
+  public toSave(): SaveData {
+    return {
+      format: SAVE_FORMAT,
+      version: GAME_VERSION,
+      savedAt: Date.now(),
+      level: this.level.name,
+      seed: this.rng.seed,
+      difficulty: this.difficulty.id,
+      mode: this.mode,
+      rngState: this.rng.getState(),
+      players: this.players.length,
+      tick: this.tick,
+      chaos: this.chaos,
+      phase: this.phase,
+      streak: this.streak,
+      multiplier: this.multiplier,
+      maxStreak: this.maxStreak,
+      maxMultiplier: this.maxMultiplier,
+      isTransitioning: this.isTransitioning,
+      bossSequenceActive: this.bossSequenceActive,
+      bossSpawnedForCurrentPhase: this.bossSpawnedForCurrentPhase,
+      hitstopTimer: this.hitstopTimer,
+      clouds: this.clouds.map(c => ({ ...c })),
+      palms: this.palms.map(p => ({ ...p })),
+      playerStates: this.players.map(p => p.toSnapshot(this.enemies, this.props)),
+      enemies: this.enemies.map(e => e.toSnapshot()),
+      pickups: this.pickups.map(p => ({ ...p })),
+      props: this.props.map(p => p.toSnapshot()),
+      boosterTimer: this.boosterTimer,
+      runStats: this.runStats.toSnapshot(),
+      replay: this.getReplay(),
+    };
+  }
+
+  private restore(save: SaveData) {
+    if (save.level !== this.level.name || (this.mode !== 'endless' && save.phase > this.level.phases.length)) {
+      throw new Error(`Save belongs to level "${save.level}"`);
+    }
+    this.tick = save.tick;
+    this.chaos = save.chaos;
+    this.phase = save.phase;
+    this.streak = save.streak;
+    this.multiplier = save.multiplier;
+    this.maxStreak = save.maxStreak;
+    this.maxMultiplier = save.maxMultiplier;
+    this.isTransitioning = save.isTransitioning;
+    this.bossSequenceActive = save.bossSequenceActive;
+    this.bossSpawnedForCurrentPhase = save.bossSpawnedForCurrentPhase;
+    this.hitstopTimer = save.hitstopTimer;
+    this.clouds = save.clouds.map(c => ({ ...c }));
+    this.palms = save.palms.map(p => ({ ...p }));
+
+    this.enemies = save.enemies.map(snap => {
+      const overrides = { ...this.enemyTuning(), color: snap.color, hp: snap.maxHp, scale: snap.scale };
+      const enemy = snap.boss
+        ? createBoss(snap.boss.kind, snap.x, snap.y, this.rng, overrides)
+        : new Enemy(snap.x, snap.y, this.rng, getArchetype(snap.archetype), overrides);
+      enemy.setTargets(this.players);
+      enemy.restoreSnapshot(snap);
+      return enemy;
+    });
+    this.props = save.props.map(snap => Prop.fromSnapshot(snap));
+    this.players.forEach((player, slot) => player.restoreSnapshot(save.playerStates[slot], this.enemies, this.props));
+    this.pickups = save.pickups.map(p => ({ ...p }));
+    this.boosterTimer = save.boosterTimer;
+    this.runStats.restoreSnapshot(save.runStats);
+    this.rng.setState(save.rngState);
+  }
+
+  /**
+   * SECTION: PUBLIC SIMULATION API
+   * Summary: Advances the simulation by exactly one tick using one input per
+   * player (missing ones count as idle). Does nothing while paused or after the
+   * run has ended.
+   */
+  public step(...inputs: InputSnapshot[]) {
+    this.players.forEach(p => p.savePosition());
+    this.enemies.forEach(e => e.savePosition());
+    this.props.forEach(p => p.savePosition());
+    this.update(this.players.map((_, i) => inputs[i] ?? EMPTY_INPUT));
+  }
+
+  /** Number of ticks actually simulated (paused and post-game steps don't count). */
+  public getTick(): number {
+    return this.tick;
+  }
+
+  /** Seed plus every input consumed so far, ready to be saved as a replay. */
+  public getReplay(): ReplayData {
+    return this.recorder.toData(this.rng.seed, this.players.length, this.difficulty.id, this.mode);
+  }
+
+  /** Player 1. */
+  public getPlayer(): Player {
+    return this.players[0];
+  }
+
+  public getPlayers(): readonly Player[] {
+    return this.players;
+  }
+
+  public getEnemies(): readonly Enemy[] {
+    return this.enemies;
+  }
+
+  public getPickups(): readonly Pickup[] {
+    return this.pickups;
+  }
+
+  public getProps(): readonly Prop[] {
+    return this.props;
+  }
+
+  public getPhase(): number {
+    return this.phase;
+  }
+
+  public getLevel(): LevelDefinition {
+    return this.level;
+  }
+
+  /** The current level phase, or the current endless wave */
+  public getPhaseDefinition(): PhaseDefinition {
+    if (this.mode !== 'endless') return this.level.phases[this.phase - 1];
+    if (this.wave?.number !== this.phase) {
+      this.wave = { number: this.phase, definition: endlessWave(this.level, this.phase) };
+    }
+    return this.wave.definition;
+  }
+
+  public getMode(): GameMode {
+    return this.mode;
+  }
+
+  /** Endless runs have no final phase; they only end in a game over */
+  private isFinalPhase(): boolean {
+    return this.mode !== 'endless' && this.phase >= this.level.phases.length;
+  }
 
-    window.addEventListener('keydown', this.handleKeyDown);
-    window.addEventListener('keyup', this.handleKeyUp);
-    this.loop();
+  public getClouds(): readonly {x: number, y: number, s: number}[] {
+    return this.clouds;
   }
 
-  private handleKeyDown = (e: KeyboardEvent) => {
-    if (e.code === 'KeyP' || e.code === 'Escape') this.togglePause();
-    if (!this.isPaused) this.keys.add(e.code);
-  };
+  /** True when the screen is cleared and the player should walk right ('GO!'). */
+  public isAwaitingAdvance(): boolean {
+    return this.isTransitioning && this.enemies.filter(e => e.state !== EntityState.DEAD).length === 0;
+  }
 
-  private handleKeyUp = (e: KeyboardEvent) => this.keys.delete(e.code);
+  public isPausedState(): boolean {
+    return this.isPaused;
+  }
+
+  public isFinished(): boolean {
+    return this.isGameOver || this.isVictory;
+  }
 
   public togglePause() {
     if (this.isGameOver || this.isVictory) return;
     this.isPaused = !this.isPaused;
+    this.events.emit('pauseToggled', { paused: this.isPaused });
     this.updateStats();
   }
 
   /**
    * SECTION: SPAWNING LOGIC
-   * Summary: Ensures the world is populated. Enforces a rule of exactly 5 enemies 
-   * in high-difficulty phases or boss fights to maintain chaos.
+   * Summary: Ensures the world is populated. Spawn counts and caps come from the
+   * current phase definition so the chaos level is tuned per phase.
    */
   private spawnEnemies() {
     if (this.isTransitioning || this.bossSequenceActive || this.isVictory) return;
-    const count = this.phase >= 3 ? 5 : 2 + this.phase;
+    const count = this.getPhaseDefinition().initialSpawn;
     for (let i = 0; i < count; i++) {
       this.spawnReplacement();
     }
   }
 
-  private spawnBoss(hp: number, scale: number) {
+  private spawnBoss(def: BossDefinition) {
     this.bossSequenceActive = true;
     this.bossSpawnedForCurrentPhase = true;
-    // Clear old enemies for the grand entrance
+    // Clear old enemies for the grand entrance (letting go of anyone they hold)
+    this.players.forEach(p => {
+      const holder = this.enemies.find(e => e === p.heldBy);
+      if (holder) this.releaseGrab(holder, p);
+      this.releaseHold(p);
+    });
     this.enemies = this.enemies.filter(e => e.state === EntityState.DEAD);
-    const boss = new Enemy(this.canvas.width + 120, 450, '#fde68a', true, hp, scale);
-    boss.setTarget(this.player);
+    const boss = createBoss(def.kind, WORLD_WIDTH + 120, 450, this.rng, { ...this.enemyTuning(), hp: def.hp, scale: def.scale });
+    boss.setTargets(this.players);
     this.enemies.push(boss);
+    this.events.emit('bossSpawned', { kind: boss.kind, name: boss.displayName, hp: boss.maxHp, music: this.getMusic() });
     
-    // Spawn up to 5 total entities including the boss
-    while(this.enemies.filter(e => e.state !== EntityState.DEAD).length < 5) {
+    // Fill the escort, boss included
+    while(this.enemies.filter(e => e.state !== EntityState.DEAD).length < def.escort) {
         this.spawnReplacement();
     }
   }
@@ -127,236 +363,703 @@ export class GameEngine {
    * Summary: Checks for player/enemy collisions, handles attack hits, 
    * and processes state transitions between game phases.
    */
-  private update() {
+  private update(inputs: InputSnapshot[]) {
     if (this.isGameOver || this.isVictory || this.isPaused) return;
 
+    this.recorder.record(inputs);
+    this.tick++;
+    this.runStats.tick();
+
     // Hitstop provides impact feedback by briefly freezing the update
     if (this.hitstopTimer > 0) {
       this.hitstopTimer--;
       return;
     }
 
-    this.player.handleInput(this.keys, () => audioManager.playSFX(200, 'sawtooth', 0.5));
+    this.players.forEach((player, i) => {
+      player.handleInput(inputs[i], () => this.events.emit('specialFired', { slot: player.slot }));
+      if (player.grabPressed) this.handleGrab(player);
+      if (player.guardPressed) this.handleParry(player);
+    });
 
-    if (this.player.hp <= 0 && !this.isGameOver) {
+    // Game over only once every player is down
+    if (this.players.every(p => p.hp <= 0) && !this.isGameOver) {
       this.isGameOver = true;
-      this.player.setState(EntityState.DEAD);
+      this.players.forEach(p => {
+        p.setState(EntityState.DEAD);
+        p.z = p.vz = 0;
+      });
+      this.events.emit('gameOver', { phase: this.phase, chaos: this.chaos });
+      this.updateStats();
       return;
     }
 
     // Progression logic
-    const target = PHASE_TARGETS[this.phase - 1] || 99999;
-    if (this.chaos >= target && !this.bossSpawnedForCurrentPhase && !this.isTransitioning) {
-        if (this.phase === 3) this.spawnBoss(200, 2);
-        else if (this.phase === 5) this.spawnBoss(500, 2.5);
-        else this.isTransitioning = true;
+    const phaseDef = this.getPhaseDefinition();
+    if (this.chaos >= phaseDef.chaosTarget && !this.bossSpawnedForCurrentPhase && !this.isTransitioning) {
+        if (phaseDef.boss) this.spawnBoss(phaseDef.boss);
+        else this.clearPhase();
     }
 
     // Handle screen transition (The 'GO' arrow phase)
     if (this.isTransitioning && this.enemies.filter(e => e.state !== EntityState.DEAD).length === 0) {
-        if (this.player.x > this.canvas.width - 40) {
+        if (this.players.some(p => !p.isDown && p.x > WORLD_WIDTH - 40)) {
             this.phase++;
-            this.player.x = 20;
+            this.players.forEach((player, slot) => {
+              player.x = 20;
+              player.y = Math.max(250, Math.min(580, player.y + slot * 10));
+              player.savePosition(); // don't interpolate the wrap to the left edge
+              // Phase clear heals everyone and gets downed partners back on their feet
+              if (player.isDown) player.revive();
+              player.hp = Math.min(player.maxHp, player.hp + phaseDef.healOnClear);
+            });
             this.isTransitioning = false;
             this.bossSpawnedForCurrentPhase = false;
-            this.player.hp = Math.min(this.player.maxHp, this.player.hp + 50); 
+            this.pickups = [];
             this.spawnEnemies();
+            this.placeProps();
+            this.events.emit('phaseStarted', { phase: this.phase, name: this.getPhaseDefinition().name, music: this.getMusic() });
         }
     }
 
+    const alivePlayers = this.players.filter(p => !p.isDown);
+
     // Ground Boundaries (800x600 coordinate space)
-    this.player.x = Math.max(20, Math.min(this.isTransitioning ? 850 : 780, this.player.x));
-    this.player.y = Math.max(250, Math.min(580, this.player.y));
-    this.player.update();
-
-    // Player Combat Collision (Normal Attacks)
-    const pAttack = this.player.getAttackHitbox();
-    if (pAttack) {
-      this.enemies.forEach(enemy => {
-        if (enemy.state !== EntityState.DEAD && this.checkCollision(pAttack, enemy.getHitbox())) {
-          if (!enemy.tryDodge()) {
-            const dmg = this.player.state === EntityState.ATTACKING_JAB ? 9 : 18;
-            if (enemy.takeDamage(dmg, this.player.facing)) {
-              audioManager.playHit();
-              this.hitstopTimer = 8;
-              this.streak++;
+    this.players.forEach(player => {
+      player.x = Math.max(20, Math.min(this.isTransitioning ? 850 : 780, player.x));
+      player.y = Math.max(250, Math.min(580, player.y));
+      player.update();
+    });
+    this.updateHolds();
+
+    alivePlayers.forEach(player => {
+      // Player Combat Collision (Normal Attacks)
+      // Each swing resolves an enemy once; combo strikes carry their own damage and knockback
+      const pAttack = player.getAttackHitbox();
+      const strike = player.currentStrike;
+      if (pAttack && strike) {
+        const damage = Math.round(strike.damage * player.damageMultiplier);
+        this.enemies.forEach(enemy => {
+          if (enemy.state !== EntityState.DEAD && enemy.state !== EntityState.THROWN && !player.hasStruck(enemy)
+            && this.checkHit(pAttack, player, enemy)) {
+            if (enemy.blocksHit(player.x, player.state === EntityState.ATTACKING_STRAIGHT)) {
+              // Shield bounce: the swing is spent and the attacker is pushed back
+              player.markStruck(enemy);
+              player.vx = -player.facing * 6;
+              this.events.emit('attackBlocked', { slot: player.slot });
+            } else if (enemy.tryDodge()) {
+              player.markStruck(enemy);
+              this.events.emit('enemyDodged', { slot: player.slot, archetype: enemy.archetype.name });
+            } else if (enemy.takeDamage(damage, player.facing, strike.knockback, MELEE_INVINCIBILITY)) {
+              player.markStruck(enemy);
+              player.registerHit(strike);
+              this.emitEnemyHit(player, enemy, damage, strike.finisher?.name ?? null, false);
+              this.hitstopTimer = strike.finisher ? 12 : 8;
+              this.streak += 1 + (strike.finisher?.finisher.streakBonus ?? 0);
             }
           }
-        }
-      });
-    }
+        });
+
+        // Scenery takes the same swing
+        this.props.forEach(prop => {
+          if (this.checkHit(pAttack, player, prop) && prop.takeHit(damage)) {
+            this.hitstopTimer = Math.max(this.hitstopTimer, 4);
+            if (prop.hp === 0) this.wreckProp(prop, player.slot);
+          }
+        });
+      }
 
-    // Player Special Collision (Radial Blast)
-    if (this.player.specialAttackActive) {
-      this.enemies.forEach(enemy => {
-        if (enemy.state !== EntityState.DEAD) {
-          const dist = Math.sqrt(Math.pow(enemy.x - this.player.x, 2) + Math.pow(enemy.y - this.player.y, 2));
-          if (dist < this.player.specialAttackRadius) {
-            // INCREASED DAMAGE: 12 -> 15 (approx 20% buff)
-            if (enemy.takeDamage(15, enemy.x > this.player.x ? 1 : -1)) {
-              audioManager.playHit();
+      // Player Special Collision (Radial Blast)
+      if (player.specialAttackActive) {
+        this.enemies.forEach(enemy => {
+          if (enemy.state !== EntityState.DEAD) {
+            const dist = Math.sqrt(Math.pow(enemy.x - player.x, 2) + Math.pow(enemy.y - player.y, 2));
+            if (dist < player.specialAttackRadius) {
+              const strike = player.specialStrike;
+              const damage = Math.round(strike.damage * player.damageMultiplier);
+              if (enemy.takeDamage(damage, enemy.x > player.x ? 1 : -1, strike.knockback)) {
+                this.emitEnemyHit(player, enemy, damage, strike.finisher?.name ?? null, true);
+                // A blast that closes a combo pays its streak bonus on the first enemy it catches
+                if (strike.finisher) {
+                  player.registerHit(strike);
+                  this.streak += 1 + strike.finisher.finisher.streakBonus;
+                  player.specialStrike = { ...strike, finisher: null };
+                }
+              }
             }
           }
-        }
-      });
-    }
+        });
+        this.props.forEach(prop => {
+          const dist = Math.hypot(prop.x - player.x, prop.y - player.y);
+          if (dist < player.specialAttackRadius && prop.takeHit(Math.round(player.specialStrike.damage * player.damageMultiplier))) {
+            if (prop.hp === 0) this.wreckProp(prop, player.slot);
+          }
+        });
+      }
+    });
 
     // Enemy AI & Combat Update
     this.enemies.forEach((enemy, idx) => {
       enemy.updateAI();
       enemy.update();
+      if (enemy.state === EntityState.THROWN) this.updateThrown(enemy);
 
-      const eAttack = enemy.getAttackHitbox();
-      if (eAttack && this.checkCollision(eAttack, this.player.getHitbox())) {
-        if (this.player.takeDamage(6, enemy.facing)) {
-          audioManager.playHit();
-          this.hitstopTimer = 8;
-          this.streak = 0;
-        }
+      // Boss stage transitions can call in reinforcements
+      if (enemy instanceof Boss) {
+        for (let n = enemy.takeSummons(); n > 0; n--) this.spawnReplacement();
       }
 
-      // BOSS SPECIAL COLLISION (PHASE 3: BLAST)
-      if (enemy.isBoss && enemy.blastActive) {
-        const dist = Math.sqrt(Math.pow(this.player.x - enemy.x, 2) + Math.pow(this.player.y - enemy.y, 2));
-        if (dist < enemy.blastRadius && this.player.state !== EntityState.DODGING) {
-            this.player.takeDamage(10, this.player.x > enemy.x ? 1 : -1);
-            audioManager.playHit();
+      // Grapplers seize the first player their reach touches
+      const grabBox = enemy.getGrabHitbox();
+      if (grabBox) {
+        const caught = alivePlayers.find(p => !p.heldBy && p.invincibleTimer === 0 && p.state !== EntityState.DODGING
+          && this.checkHit(grabBox, enemy, p));
+        if (caught) {
+          this.dropProp(caught);
+          this.releaseHold(caught);
+          enemy.seize(caught);
+          caught.heldBy = enemy;
+          caught.struggle = 0;
+          this.events.emit('playerGrabbed', { slot: caught.slot });
         }
       }
+      if (enemy.grabbed) this.updateGrab(enemy);
+      this.updateReflected(enemy);
 
-      // BOSS SPECIAL COLLISION (PHASE 5: VOID PROJECTILES)
-      enemy.projectiles.forEach((p, pIdx) => {
-          const pDist = Math.sqrt(Math.pow(this.player.x - p.x, 2) + Math.pow((this.player.y - 30) - p.y, 2));
-          if (pDist < 25 && this.player.state !== EntityState.DODGING) {
-              this.player.takeDamage(15, p.vx > 0 ? 1 : -1);
-              enemy.projectiles.splice(pIdx, 1);
-              audioManager.playHit();
+      alivePlayers.forEach(player => {
+        const eAttack = enemy.getAttackHitbox();
+        if (eAttack && this.checkHit(eAttack, enemy, player)) {
+          if (this.damagePlayer(player, enemy.archetype.damage, 'melee', enemy.facing)) {
+            this.hitstopTimer = 8;
+            this.streak = 0;
           }
+        }
+
+        // BOSS SPECIAL COLLISION (PHASE 3: BLAST)
+        // The ring rolls along the ground: jump it as the edge passes
+        if (enemy instanceof Boss && enemy.blastActive) {
+          const dist = Math.sqrt(Math.pow(player.x - enemy.x, 2) + Math.pow(player.y - enemy.y, 2));
+          if (Math.abs(dist - enemy.blastRadius) < BLAST_RING_WIDTH && player.z < BLAST_CLEARANCE
+            && player.state !== EntityState.DODGING) {
+              this.damagePlayer(player, 10, 'blast', player.x > enemy.x ? 1 : -1);
+          }
+        }
+
+        // BOSS SPECIAL COLLISION (PHASE 5: VOID PROJECTILES)
+        enemy.projectiles.forEach((p, pIdx) => {
+            if (p.reflectedBy !== undefined) return;
+            const pDist = Math.sqrt(Math.pow(player.x - p.x, 2) + Math.pow((player.y - player.z - 30) - p.y, 2));
+            if (pDist < 25 && player.state !== EntityState.DODGING) {
+                this.damagePlayer(player, p.damage, 'projectile', p.vx > 0 ? 1 : -1);
+                enemy.projectiles.splice(pIdx, 1);
+            }
+        });
       });
 
       // Cleanup dead enemies and update chaos score
       if (enemy.state === EntityState.DEAD && enemy.stateTimer === 0) {
-        this.chaos += (enemy.isBoss ? 750 : 20) * this.multiplier;
+        const awarded = this.awardChaos(enemy.archetype.chaos);
+        this.events.emit('enemyKilled', { archetype: enemy.archetype.name, chaos: awarded, isBoss: enemy.isBoss });
+        this.dropPickup(rollDrop(enemy.archetype.drops, this.rng), enemy.x, enemy.y);
         if (enemy.isBoss) {
             this.bossSequenceActive = false;
-            if (this.phase === 3) { this.player.specialUnlocked = true; this.isTransitioning = true; }
-            else if (this.phase === 5) this.isVictory = true;
+            if (enemy instanceof Boss) this.events.emit('bossDefeated', { kind: enemy.kind, name: enemy.displayName, music: this.getMusic() });
+            if (phaseDef.boss?.unlocksSpecial) this.players.forEach(p => p.specialUnlocked = true);
+            this.clearPhase();
         }
         this.enemies.splice(idx, 1);
         
-        // Ensure 5 enemies stay active in high phases
+        // Top the phase back up to its active cap
         const activeCount = this.enemies.filter(e => e.state !== EntityState.DEAD).length;
-        const targetCount = this.phase >= 3 ? 5 : 3;
+        const targetCount = this.getPhaseDefinition().maxActive;
         if (!this.isTransitioning && !this.isVictory && activeCount < targetCount) {
             this.spawnReplacement();
         }
       }
     });
 
+    this.updateProps();
+    this.updatePickups();
+    this.updateRevives();
+
     this.multiplier = Math.min(10, 1 + Math.floor(this.streak / 5));
+    this.maxStreak = Math.max(this.maxStreak, this.streak);
+    this.maxMultiplier = Math.max(this.maxMultiplier, this.multiplier);
     this.updateStats();
   }
 
-  private spawnReplacement() {
-      const side = Math.random() > 0.5 ? -150 : 950;
-      const enemy = new Enemy(side, 250 + Math.random() * 330, this.phase >= 4 ? '#a855f7' : '#ef4444');
-      enemy.setTarget(this.player);
-      this.enemies.push(enemy);
+  /**
+   * SECTION: CO-OP REVIVE
+   * Summary: A downed player fills a revive meter while a living partner stands
+   * next to them; walking away lets it drain again.
+   */
+  private updateRevives() {
+    this.players.forEach(downed => {
+      if (!downed.isDown) return;
+      const rescuer = this.players.find(p => p !== downed && !p.isDown
+        && Math.hypot(p.x - downed.x, p.y - downed.y) < downed.REVIVE_RANGE);
+      if (rescuer) {
+        downed.reviveProgress++;
+        if (downed.reviveProgress >= downed.REVIVE_TIME) {
+          downed.revive();
+          this.events.emit('playerRevived', { slot: downed.slot });
+        }
+      } else {
+        downed.reviveProgress = Math.max(0, downed.reviveProgress - 2);
+      }
+    });
   }
 
   /**
-   * SECTION: RENDERING PIPELINE
-   * Summary: Clears the canvas and draws the layers (Sky -> Ground -> Entities -> HUD Hints).
+   * SECTION: GRAPPLER HOLDS
+   * Summary: A held player is pinned in front of the grappler and squeezed
+   * every half second. Mashing attack, a hit on the grappler or the grappler
+   * going down breaks the hold; otherwise it ends with a throw.
    */
-  private draw() {
-    this.ctx.clearRect(0, 0, 800, 600);
-    
-    // Background Layer: Phase-specific image (with gradient fallback)
-    const bgImg = this.backgroundImages.get(this.phase);
-    if (bgImg && bgImg.complete && bgImg.naturalWidth > 0) {
-      this.ctx.drawImage(bgImg, 0, 0, 800, 600);
+  private updateGrab(enemy: Enemy) {
+    const held = this.players.find(p => p === enemy.grabbed);
+    if (!held) return;
+
+    const broken = held.struggle >= held.STRUGGLE_TO_ESCAPE || enemy.state === EntityState.HIT
+      || enemy.state === EntityState.DEAD || enemy.state === EntityState.GRABBED || enemy.state === EntityState.THROWN;
+    if (broken || held.isDown) {
+      this.releaseGrab(enemy, held);
+      if (!held.isDown) held.invincibleTimer = 30;
+      return;
+    }
+
+    held.x = enemy.x + enemy.facing * 30 * enemy.scale;
+    held.y = enemy.y + 1;
+    held.facing = enemy.facing === 1 ? -1 : 1;
+
+    if (enemy.grabHoldTimer === 0) {
+      this.releaseGrab(enemy, held);
+      if (this.damagePlayer(held, enemy.archetype.damage * 3, 'throw', enemy.facing, 24)) {
+        this.hitstopTimer = 8;
+        this.streak = 0;
+      }
+    } else if (enemy.grabHoldTimer % 30 === 0) {
+      this.damagePlayer(held, enemy.archetype.damage, 'grab', 0, 0, 0);
     } else {
-      const skyGrad = this.ctx.createLinearGradient(0, 0, 0, 250);
-      skyGrad.addColorStop(0, this.phase >= 4 ? '#020617' : '#0369a1');
-      skyGrad.addColorStop(1, this.phase >= 4 ? '#1e1b4b' : '#38bdf8');
-      this.ctx.fillStyle = skyGrad;
-      this.ctx.fillRect(0, 0, 800, 250);
-      this.ctx.fillStyle = this.phase >= 4 ? '#1e293b' : '#fde68a';
-      this.ctx.fillRect(0, 250, 800, 350);
+      if (held.state !== EntityState.HIT) held.setState(EntityState.HIT);
+      held.stateTimer = Math.max(held.stateTimer, 2);
     }
-    
-    // Environmental Decor
-    this.ctx.fillStyle = 'rgba(255,255,255,0.1)';
-    this.clouds.forEach(c => {
-        this.ctx.beginPath();
-        this.ctx.ellipse(c.x, c.y, 60, 25, 0, 0, Math.PI * 2);
-        this.ctx.fill();
-        c.x = (c.x + c.s) % 850;
+  }
+
+  /**
+   * SECTION: PICKUPS
+   * Summary: Drops land on the ground inside the playfield; a living player
+   * touching one collects it. Items left lying around despawn (see Pickups.ts).
+   */
+  private dropPickup(kind: PickupKind | null, x: number, y: number) {
+    if (!kind) return;
+    const pickup = createPickup(kind, Math.max(30, Math.min(WORLD_WIDTH - 30, x)), Math.max(260, Math.min(580, y)));
+    this.pickups.push(pickup);
+    this.events.emit('pickupDropped', { kind, x: pickup.x, y: pickup.y });
+  }
+
+  private updatePickups() {
+    if (this.boosterTimer > 0) this.boosterTimer--;
+    this.pickups = this.pickups.filter(pickup => {
+      const player = this.players.find(p => !p.isDown && this.checkCollision(getPickupHitbox(pickup), p.getHitbox()));
+      if (player) {
+        this.applyPickup(player, pickup);
+        return false;
+      }
+      return --pickup.ttl > 0;
     });
+  }
 
-    // Draw all entities sorted by Y coordinate for depth (Z-ordering)
-    const ents = [this.player, ...this.enemies].sort((a,b) => a.y - b.y);
-    ents.forEach(e => e.draw(this.ctx));
-    
-    // Navigation hint when screen is cleared — flashing GO!
-    if (this.isTransitioning && this.enemies.filter(e => e.state !== EntityState.DEAD).length === 0) {
-        const t = Date.now();
-        const flash = Math.sin(t / 150) > 0; // alternate white/red
-        const pulse = 1 + Math.sin(t / 200) * 0.15; // size pulse 0.85–1.15
-        const fontSize = Math.round(28 * pulse);
-
-        this.ctx.save();
-        this.ctx.textAlign = 'center';
-        this.ctx.font = `bold ${fontSize}px "Press Start 2P"`;
-
-        // Flashing text color
-        this.ctx.fillStyle = flash ? '#ff3333' : '#ffffff';
-        this.ctx.fillText('GO!', 700, 395);
-
-        // Blinking arrow
-        if (Math.sin(t / 300) > 0) {
-            this.ctx.font = `bold ${fontSize}px "Press Start 2P"`;
-            this.ctx.fillText('>>>', 700, 430);
+  private applyPickup(player: Player, pickup: Pickup) {
+    const { duration } = PICKUP_TYPES[pickup.kind];
+    switch (pickup.kind) {
+      case 'food': player.hp = Math.min(player.maxHp, player.hp + FOOD_HEAL); break;
+      case 'booster': this.boosterTimer = duration; break;
+      case 'power': player.powerTimer = duration; break;
+      case 'haste': player.hasteTimer = duration; break;
+      case 'refill': player.specialCooldownTimer = 0; break;
+    }
+    this.events.emit('pickupCollected', { slot: player.slot, kind: pickup.kind });
+  }
+
+  /**
+   * SECTION: BEACH PROPS
+   * Summary: Each phase starts with the props its definition places (see
+   * Props.ts). GRAB lifts a throwable prop in reach and throws a carried one;
+   * a carrier who gets hit or grabbed drops it where they stand. Thrown props
+   * hit the first enemy in their lane and shatter on impact or landing.
+   * Wrecked props pay chaos like kills do and roll their drop table.
+   */
+  private placeProps() {
+    this.players.forEach(p => p.carrying = null);
+    this.props = this.getPhaseDefinition().props.map(({ kind, x, y }) => new Prop(kind, x, y));
+  }
+
+  private handleGrab(player: Player) {
+    const carried = player.carrying;
+    if (carried) {
+      player.carrying = null;
+      carried.launch(player.facing, player.slot);
+      this.events.emit('propThrown', { slot: player.slot, kind: carried.type.kind });
+      return;
+    }
+    const prop = this.props.find(p => p.canBeLiftedFrom(player.x, player.y));
+    if (prop) {
+      prop.lift();
+      player.carrying = prop;
+      return;
+    }
+    const stunned = this.enemies.find(e => e.state === EntityState.HIT && e.canBeGrabbed()
+      && (e.x - player.x) * player.facing > 0 && Math.abs(e.x - player.x) < GRAB_REACH && Math.abs(e.y - player.y) < GRAB_DEPTH);
+    if (stunned) this.startHold(player, stunned);
+  }
+
+  private dropProp(player: Player) {
+    player.carrying?.putDown();
+    player.carrying = null;
+  }
+
+  private updateProps() {
+    this.props.forEach(prop => {
+      const carrier = this.players.find(p => p.carrying === prop);
+      if (carrier) prop.carry(carrier.x, carrier.y, carrier.facing);
+      const landed = prop.update();
+      if (prop.state !== 'thrown') return;
+
+      const thrower = this.players[prop.thrownBy ?? 0];
+      const target = this.enemies.find(e => e.state !== EntityState.DEAD && Math.abs(e.y - prop.y) < THROW_LANE_DEPTH
+        && this.checkCollision(prop.getHitbox(), e.getHitbox()));
+      const damage = Math.round(prop.type.throwDamage * thrower.damageMultiplier);
+      if (target && target.takeDamage(damage, prop.facing, THROW_KNOCKBACK, MELEE_INVINCIBILITY)) {
+        this.emitEnemyHit(thrower, target, damage, null, false);
+        this.hitstopTimer = 8;
+        this.streak++;
+        this.wreckProp(prop, thrower.slot);
+      } else if (landed) {
+        this.wreckProp(prop, thrower.slot);
+      }
+    });
+    this.props = this.props.filter(prop => !prop.isGone(WORLD_WIDTH));
+  }
+
+  private wreckProp(prop: Prop, slot: number) {
+    prop.shatter();
+    const awarded = this.awardChaos(prop.type.chaos);
+    this.events.emit('propBroken', { slot, kind: prop.type.kind, chaos: awarded });
+    this.dropPickup(rollDrop(prop.type.drops, this.rng), prop.x, prop.y);
+  }
+
+  /** Adds base chaos times the streak multiplier (and the booster); returns the amount */
+  private awardChaos(base: number): number {
+    const awarded = base * this.multiplier * (this.boosterTimer > 0 ? BOOSTER_CHAOS_MULTIPLIER : 1);
+    this.chaos += awarded;
+    return awarded;
+  }
+
+  /**
+   * SECTION: PLAYER HOLDS
+   * Summary: GRAB on a stunned enemy in reach, or walking into any enemy but a
+   * boss, starts a hold. The held enemy is pinned in front of its holder: jab
+   * lands grab-punches (the GRAB_PUNCH_LIMIT-th knocks it loose), straight or
+   * GRAB throws it. A hit on the holder or on the held enemy ends the hold, as
+   * does the enemy's escape timer (see Enemy.updateAI). Thrown enemies crash
+   * through the enemies and props in their lane, then take a landing hit.
+   */
+  private updateHolds() {
+    this.players.forEach(player => {
+      if (!player.holding && !player.carrying && !player.heldBy && player.state === EntityState.WALKING && player.grabCooldown === 0) {
+        const target = this.enemies.find(e => e.canBeGrabbed() && (e.x - player.x) * player.facing > 0
+          && Math.abs(e.y - player.y) < GRAB_DEPTH && this.checkCollision(player.getHitbox(), e.getHitbox()));
+        if (target) this.startHold(player, target);
+      }
+
+      const enemy = this.enemies.find(e => e === player.holding);
+      if (!enemy) return;
+      // Escaped, knocked out of it by someone else, or down
+      if (enemy.state !== EntityState.GRABBED) {
+        this.releaseHold(player);
+        return;
+      }
+
+      if (player.holdAction === 'throw') {
+        enemy.x = player.x + player.facing * HOLD_DISTANCE;
+        enemy.launch(player.facing, player.slot);
+        this.releaseHold(player);
+        this.events.emit('enemyThrown', { slot: player.slot, archetype: enemy.archetype.name });
+        return;
+      }
+      if (player.holdAction === 'punch') {
+        const strike = { damage: Math.round(GRAB_PUNCH_DAMAGE * player.damageMultiplier), knockback: 16, finisher: null };
+        const last = ++player.grabPunches >= GRAB_PUNCH_LIMIT;
+        const landed = last
+          ? enemy.takeDamage(strike.damage, player.facing, strike.knockback, MELEE_INVINCIBILITY)
+          : enemy.punchWhileHeld(strike.damage);
+        if (landed) {
+          player.registerHit(strike);
+          this.emitEnemyHit(player, enemy, strike.damage, null, false);
+          this.hitstopTimer = last ? 8 : 4;
+          this.streak++;
+        }
+        if (last || enemy.state !== EntityState.GRABBED) {
+          this.releaseHold(player);
+          return;
         }
+      }
+
+      enemy.x = player.x + player.facing * HOLD_DISTANCE;
+      enemy.y = player.y + 1;
+      enemy.facing = player.facing === 1 ? -1 : 1;
+    });
+  }
+
+  private startHold(player: Player, enemy: Enemy) {
+    // Grabbing a grappler frees whoever it was squeezing
+    const victim = this.players.find(p => p.heldBy === enemy);
+    if (victim) this.releaseGrab(enemy, victim);
+    enemy.getGrabbed();
+    player.holding = enemy;
+    player.grabPunches = 0;
+    player.setState(EntityState.GRABBING);
+    this.events.emit('enemyGrabbed', { slot: player.slot, archetype: enemy.archetype.name });
+  }
+
+  /** Ends a player's hold; an enemy still held slips free */
+  private releaseHold(player: Player) {
+    if (!player.holding) return;
+    const enemy = this.enemies.find(e => e === player.holding);
+    if (enemy?.state === EntityState.GRABBED) enemy.breakFree();
+    player.holding = null;
+    player.grabPunches = 0;
+    player.grabCooldown = player.GRAB_COOLDOWN;
+    if (player.state === EntityState.GRABBING) player.setState(EntityState.IDLE);
+  }
+
+  private updateThrown(enemy: Enemy) {
+    const thrower = this.players[enemy.thrownBy ?? 0];
+    const impact = Math.round(THROW_IMPACT_DAMAGE * thrower.damageMultiplier);
+    this.enemies.forEach(other => {
+      if (other === enemy || other.state === EntityState.DEAD || other.state === EntityState.THROWN
+        || Math.abs(other.y - enemy.y) >= THROW_LANE_DEPTH || !this.checkCollision(enemy.getHitbox(), other.getHitbox())) return;
+      if (other.takeDamage(impact, enemy.facing, THROW_KNOCKBACK)) {
+        this.emitEnemyHit(thrower, other, impact, null, false);
+        this.hitstopTimer = Math.max(this.hitstopTimer, 6);
+        this.streak++;
+      }
+    });
+    this.props.forEach(prop => {
+      if (Math.abs(prop.y - enemy.y) < THROW_LANE_DEPTH && this.checkCollision(enemy.getHitbox(), prop.getHitbox())
+        && prop.takeHit(impact) && prop.hp === 0) {
+        this.wreckProp(prop, thrower.slot);
+      }
+    });
 
-        this.ctx.restore();
+    // Flight over, or into the edge of the screen
+    if (enemy.stateTimer === 0 || enemy.x < 20 || enemy.x > WORLD_WIDTH - 20) {
+      enemy.x = Math.max(20, Math.min(WORLD_WIDTH - 20, enemy.x));
+      enemy.land();
+      const landing = Math.round(THROW_LANDING_DAMAGE * thrower.damageMultiplier);
+      if (enemy.takeDamage(landing, enemy.facing, 6)) this.emitEnemyHit(thrower, enemy, landing, null, false);
     }
   }
 
-  private loop(timestamp: number = 0) {
-    if (!this.isRunning) return;
+  /**
+   * SECTION: GUARD & PARRY
+   * Summary: A guarding player blocks what comes at them from the front
+   * (grabs and grappler throws excepted) for chip damage, draining the guard
+   * meter (see Player.blockHit). A fresh GUARD press parries: it staggers
+   * every enemy in front whose melee windup ends within PARRY_WINDOW ticks
+   * and sends void orbs in range back at whoever cast them. Each parry pays
+   * PARRY_CHAOS (times the multiplier) and counts towards the streak.
+   */
+  private handleParry(player: Player) {
+    let parried = false;
+    this.enemies.forEach(enemy => {
+      if (!enemy.canBeParried(PARRY_WINDOW) || (enemy.x - player.x) * player.facing <= 0
+        || Math.abs(enemy.x - player.x) > PARRY_REACH * enemy.scale || Math.abs(enemy.y - player.y) > PARRY_DEPTH) return;
+      enemy.parried(player.facing);
+      this.rewardParry(player, enemy, false);
+      parried = true;
+    });
+    const centreY = player.y - player.z - 30;
+    this.enemies.forEach(enemy => enemy.projectiles.forEach(p => {
+      if (p.kind !== 'orb' || p.reflectedBy !== undefined || Math.hypot(p.x - player.x, p.y - centreY) > ORB_PARRY_RANGE) return;
+      const angle = Math.atan2((enemy.y - 45 * enemy.scale) - p.y, enemy.x - p.x);
+      p.vx = Math.cos(angle) * ORB_REFLECT_SPEED;
+      p.vy = Math.sin(angle) * ORB_REFLECT_SPEED;
+      p.life = 120;
+      p.reflectedBy = player.slot;
+      this.rewardParry(player, enemy, true);
+      parried = true;
+    }));
+    if (parried) player.registerParry();
+  }
 
-    // Calculate delta time (normalize to 60fps baseline)
-    if (this.lastFrameTime === 0) this.lastFrameTime = timestamp;
-    const rawDelta = (timestamp - this.lastFrameTime) / (1000 / 60);
-    // Clamp delta to prevent teleporting after tab switch or long pause
-    this.deltaTime = Math.min(rawDelta, 3);
-    this.lastFrameTime = timestamp;
+  private rewardParry(player: Player, enemy: Enemy, reflected: boolean) {
+    const chaos = this.awardChaos(PARRY_CHAOS);
+    this.streak++;
+    this.hitstopTimer = Math.max(this.hitstopTimer, 10);
+    this.events.emit('attackParried', { slot: player.slot, archetype: enemy.archetype.name, reflected, chaos });
+  }
 
-    this.update();
-    this.draw();
-    this.animationFrameId = requestAnimationFrame((ts) => this.loop(ts));
+  /** Reflected orbs hurt only the enemy that cast them */
+  private updateReflected(enemy: Enemy) {
+    enemy.projectiles = enemy.projectiles.filter(p => {
+      if (p.reflectedBy === undefined || enemy.state === EntityState.DEAD) return true;
+      if (!this.checkCollision({ x: p.x - 10, y: p.y - 10, width: 20, height: 20 }, enemy.getHitbox())) return true;
+      const player = this.players[p.reflectedBy];
+      const damage = Math.round(p.damage * ORB_REFLECT_DAMAGE * player.damageMultiplier);
+      if (enemy.takeDamage(damage, p.vx > 0 ? 1 : -1, 8, MELEE_INVINCIBILITY)) {
+        this.emitEnemyHit(player, enemy, damage, null, false);
+        this.hitstopTimer = Math.max(this.hitstopTimer, 8);
+      }
+      return false;
+    });
   }
 
-  private updateStats() {
-    const target = PHASE_TARGETS[this.phase - 1] || 99999;
-    this.statsCallback({
-      hp: this.player.hp, maxHp: this.player.maxHp, chaos: this.chaos, multiplier: this.multiplier,
-      phase: this.phase, streak: this.streak, targetChaos: target,
-      specialCooldown: this.player.specialCooldownTimer / this.player.SPECIAL_COOLDOWN_MAX,
-      specialUnlocked: this.player.specialUnlocked, isBossActive: this.bossSequenceActive,
-      isVictory: this.isVictory, isPaused: this.isPaused
+  /** Ends the current phase: victory on the last one, otherwise the 'GO!' walk */
+  private clearPhase() {
+    this.events.emit('phaseCleared', { phase: this.phase, name: this.getPhaseDefinition().name });
+    if (this.isFinalPhase()) {
+      this.isVictory = true;
+      this.events.emit('victory', { chaos: this.chaos });
+    } else {
+      this.isTransitioning = true;
+    }
+  }
+
+  /** The difficulty's per-enemy overrides: attack rhythm and dodge rate */
+  private enemyTuning() {
+    return { attackIntervalScale: this.difficulty.attackInterval, dodgeScale: this.difficulty.dodgeChance };
+  }
+
+  /**
+   * Player.takeDamage (scaled by the difficulty) plus the damage and knock-down
+   * events. A guarded hit only chips and never counts as landed (false).
+   */
+  private damagePlayer(player: Player, rawAmount: number, source: DamageSource, knockbackDir: number,
+                       knockback?: number, invincibility?: number): boolean {
+    const amount = Math.max(1, Math.round(rawAmount * this.difficulty.enemyDamage));
+    if (player.isGuarding && source !== 'grab' && source !== 'throw' && knockbackDir === -player.facing) {
+      const chip = Math.max(1, Math.round(amount * GUARD_CHIP));
+      const result = player.blockHit(chip, amount * GUARD_DRAIN, knockbackDir);
+      if (!result) return false;
+      this.hitstopTimer = Math.max(this.hitstopTimer, 4);
+      this.events.emit('attackGuarded', { slot: player.slot, damage: chip, broken: result === 'broken' });
+      this.events.emit('playerDamaged', { slot: player.slot, damage: chip, source, hp: player.hp });
+      if (player.isDown) this.events.emit('playerDowned', { slot: player.slot });
+      return false;
+    }
+    if (!player.takeDamage(amount, knockbackDir, knockback, invincibility)) return false;
+    this.dropProp(player);
+    this.releaseHold(player);
+    this.events.emit('playerDamaged', { slot: player.slot, damage: amount, source, hp: player.hp });
+    if (player.isDown) this.events.emit('playerDowned', { slot: player.slot });
+    return true;
+  }
+
+  private emitEnemyHit(player: Player, enemy: Enemy, damage: number, finisher: string | null, special: boolean) {
+    this.events.emit('enemyHit', {
+      slot: player.slot, archetype: enemy.archetype.name, damage, finisher, special, isBoss: enemy.isBoss
     });
   }
 
-  private checkCollision(r1: Rect, r2: Rect) {
-    return r1.x < r2.x + r2.width && r1.x + r1.width > r2.x && r1.y < r2.y + r2.height && r1.y + r1.height > r2.y;
+  private releaseGrab(enemy: Enemy, held: Player) {
+    enemy.release();
+    held.heldBy = null;
+    held.struggle = 0;
   }
 
-  public cleanup() {
-    this.isRunning = false;
-    window.removeEventListener('keydown', this.handleKeyDown);
-    window.removeEventListener('keyup', this.handleKeyUp);
-    cancelAnimationFrame(this.animationFrameId);
+  private spawnReplacement() {
+      const side = this.rng.next() > 0.5 ? -150 : 950;
+      const spawn = this.pickRosterEntry();
+      const enemy = new Enemy(side, this.rng.range(250, 580), this.rng, getArchetype(spawn.archetype), {
+        ...this.enemyTuning(), color: spawn.color, hp: spawn.hp
+      });
+      enemy.setTargets(this.players);
+      this.enemies.push(enemy);
+  }
+
+  /** Weighted pick from the phase roster; single-entry rosters make no roll */
+  private pickRosterEntry(): EnemySpawn {
+    const roster = this.getPhaseDefinition().roster;
+    if (roster.length === 1) return roster[0];
+    let roll = this.rng.next() * roster.reduce((sum, e) => sum + e.weight, 0);
+    for (const entry of roster) {
+      roll -= entry.weight;
+      if (roll < 0) return entry;
+    }
+    return roster[roster.length - 1];
+  }
+
+  /** Totals and per-phase breakdown of the run so far, for the results screen */
+  public getRunStats(): RunStats {
+    return this.runStats.getStats({
+      swingsWhiffed: this.players.reduce((sum, p) => sum + p.swings - p.swingsLanded, 0),
+      playerDodges: this.players.reduce((sum, p) => sum + p.dodges, 0),
+      maxStreak: this.maxStreak,
+    });
+  }
+
+  /** The level's track for the current phase, or its boss while the boss fight runs */
+  public getMusic(): ThemeType {
+    const phaseDef = this.getPhaseDefinition();
+    return this.bossSequenceActive && phaseDef.boss ? phaseDef.boss.music : phaseDef.music;
+  }
+
+  public getStats(): GameStats {
+    const phaseDef = this.getPhaseDefinition();
+    const target = phaseDef.chaosTarget;
+    const player = this.players[0];
+    const boss = this.enemies.find((e): e is Boss => e instanceof Boss && e.state !== EntityState.DEAD);
+    const buff = (kind: PickupKind, timer: number) => ({ kind, remaining: timer / PICKUP_TYPES[kind].duration });
+    return {
+      hp: player.hp, maxHp: player.maxHp, chaos: this.chaos, multiplier: this.multiplier,
+      chaosBoost: this.boosterTimer > 0 ? buff('booster', this.boosterTimer) : null,
+      phase: this.phase, phaseCount: this.mode === 'endless' ? 0 : this.level.phases.length, phaseName: phaseDef.name,
+      streak: this.streak, maxStreak: this.maxStreak, maxMultiplier: this.maxMultiplier,
+      ticks: this.tick, targetChaos: target,
+      specialCooldown: player.specialCooldownTimer / player.SPECIAL_COOLDOWN_MAX,
+      specialUnlocked: player.specialUnlocked, isBossActive: this.bossSequenceActive,
+      boss: boss ? {
+        name: boss.displayName, hp: boss.hp, maxHp: boss.maxHp,
+        stage: boss.stage.name, stageMarkers: boss.stageMarkers
+      } : null,
+      isVictory: this.isVictory, isGameOver: this.isGameOver, isPaused: this.isPaused, seed: this.rng.seed,
+      difficulty: this.difficulty.id, mode: this.mode,
+      players: this.players.map(p => ({
+        hp: p.hp, maxHp: p.maxHp,
+        specialCooldown: p.specialCooldownTimer / p.SPECIAL_COOLDOWN_MAX,
+        isDown: p.isDown, reviveProgress: p.reviveProgress / p.REVIVE_TIME,
+        combo: p.comboHits,
+        guard: p.guardMeter / p.GUARD_MAX,
+        buffs: [
+          ...(p.powerTimer > 0 ? [buff('power', p.powerTimer)] : []),
+          ...(p.hasteTimer > 0 ? [buff('haste', p.hasteTimer)] : []),
+        ],
+      }))
+    };
+  }
+
+  private updateStats() {
+    this.events.emit('stats', this.getStats());
+  }
+
+  /**
+   * Melee contact, height aware. The boxes are compared as if both stood on
+   * the ground (reach and lane, the same screen-space test as ever), then the
+   * swing's height above the attacker's ground line has to overlap the
+   * target's body above its own, so a jump clears low strikes and kicks from
+   * the air only land on what they reach.
+   */
+  private checkHit(attack: Rect, attacker: Body, target: Body): boolean {
+    const body = target.getHitbox();
+    if (!this.checkCollision({ ...attack, y: attack.y + attacker.z }, { ...body, y: body.y + target.z })) return false;
+    const swingTop = attacker.y - attack.y;
+    const bodyTop = target.y - body.y;
+    return swingTop - attack.height < bodyTop && swingTop > bodyTop - body.height;
+  }
+
+  private checkCollision(r1: Rect, r2: Rect) {
+    return r1.x < r2.x + r2.width && r1.x + r1.width > r2.x && r1.y < r2.y + r2.height && r1.y + r1.height > r2.y;
   }
 }
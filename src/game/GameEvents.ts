@@ -0,0 +1,85 @@
+import type { ThemeType } from './AudioManager';
+import type { BossKind } from './Boss';
+import type { GameStats, PickupKind, PropKind } from '../types';
+
+/** What hurt a player */
+export type DamageSource = 'melee' | 'grab' | 'throw' | 'blast' | 'projectile';
+
+/**
+ * SECTION: GAME EVENTS
+ * Summary: Everything the engine announces while it simulates, keyed by event
+ * name. Payloads are plain data (player slots, archetype names) so listeners
+ * never hold on to live entities and analytics can serialize them as-is.
+ */
+export interface GameEventMap {
+  /** Full HUD snapshot, published after every simulated tick and on pause */
+  stats: GameStats;
+  enemyHit: { slot: number; archetype: string; damage: number; finisher: string | null; special: boolean; isBoss: boolean };
+  enemyKilled: { archetype: string; chaos: number; isBoss: boolean };
+  /** An enemy sidestepped a player's swing */
+  enemyDodged: { slot: number; archetype: string };
+  /** A guard's shield bounced a player's swing */
+  attackBlocked: { slot: number };
+  playerDamaged: { slot: number; damage: number; source: DamageSource; hp: number };
+  /** A player's guard soaked a hit for chip damage; broken when it emptied the meter */
+  attackGuarded: { slot: number; damage: number; broken: boolean };
+  /** A player parried a windup (staggering the attacker) or reflected a void orb back at its caster */
+  attackParried: { slot: number; archetype: string; reflected: boolean; chaos: number };
+  playerDowned: { slot: number };
+  playerRevived: { slot: number };
+  playerGrabbed: { slot: number };
+  /** A player grabbed an enemy (and later threw it) */
+  enemyGrabbed: { slot: number; archetype: string };
+  enemyThrown: { slot: number; archetype: string };
+  specialFired: { slot: number };
+  /** A defeated enemy left an item behind */
+  pickupDropped: { kind: PickupKind; x: number; y: number };
+  pickupCollected: { slot: number; kind: PickupKind };
+  propThrown: { slot: number; kind: PropKind };
+  /** A prop was wrecked, by a hit or by being thrown */
+  propBroken: { slot: number; kind: PropKind; chaos: number };
+  /** The phase's goal was met (chaos target or boss); fired before victory on the last phase */
+  phaseCleared: { phase: number; name: string };
+  /** Players walked on into the next phase; music is the level's track from here on */
+  phaseStarted: { phase: number; name: string; music: ThemeType };
+  bossSpawned: { kind: BossKind; name: string; hp: number; music: ThemeType };
+  bossDefeated: { kind: BossKind; name: string; music: ThemeType };
+  pauseToggled: { paused: boolean };
+  gameOver: { phase: number; chaos: number };
+  victory: { chaos: number };
+}
+
+export type GameEventType = keyof GameEventMap;
+export type GameEventHandler<K extends GameEventType> = (payload: GameEventMap[K]) => void;
+
+/** Handler sets per event, each typed to its own payload */
+type HandlerStore<Keys extends GameEventType = GameEventType> = { [K in Keys]?: Set<GameEventHandler<K>> };
+
+/**
+ * SECTION: EVENT BUS
+ * Summary: A small typed emitter. on() returns the matching unsubscribe so
+ * React effects can hand it straight back as their cleanup. Handlers run
+ * synchronously in subscription order during the engine tick.
+ */
+export class GameEventBus {
+  private handlers: HandlerStore = {};
+
+  on<K extends GameEventType>(type: K, handler: GameEventHandler<K>): () => void {
+    // Viewed through K alone, the store's entry for `type` is writable as Set<GameEventHandler<K>>
+    const handlers: HandlerStore<K> = this.handlers;
+    (handlers[type] ??= new Set()).add(handler);
+    return () => this.off(type, handler);
+  }
+
+  off<K extends GameEventType>(type: K, handler: GameEventHandler<K>) {
+    this.handlers[type]?.delete(handler);
+  }
+
+  emit<K extends GameEventType>(type: K, payload: GameEventMap[K]) {
+    this.handlers[type]?.forEach(handler => handler(payload));
+  }
+
+  clear() {
+    this.handlers = {};
+  }
+}
@@ -0,0 +1,166 @@
+import { GameEngine, type GameEngineOptions } from './GameEngine';
+import { CanvasRenderer } from './CanvasRenderer';
+import { KeyboardInput } from './KeyboardInput';
+import { GamepadInput } from './GamepadInput';
+import { TouchInput, isTouchDevice } from './TouchInput';
+import { type ReplayData, ReplayPlayer } from './Replay';
+import type { SaveData } from './SaveGame';
+import type { RunStats } from './RunStats';
+import { DEFAULT_BINDING_SETS, type KeyBindings } from './InputBindings';
+import { type InputSnapshot, TICKS_PER_SECOND } from '../types';
+import { GameEventBus } from './GameEvents';
+import { bindGameAudio, bindGameMusic } from './GameAudio';
+
+const TICK_MS = 1000 / TICKS_PER_SECOND;
+// Longest real frame we account for; anything beyond is treated as a hiccup
+const MAX_FRAME_MS = 250;
+const MAX_TICKS_PER_FRAME = 5;
+
+/** Combines devices: an action is active if any device holds it. */
+function mergeInputs(a: InputSnapshot, b: InputSnapshot): InputSnapshot {
+  const merged = { ...a };
+  (Object.keys(b) as (keyof InputSnapshot)[]).forEach(key => {
+    merged[key] = a[key] || b[key];
+  });
+  return merged;
+}
+
+/**
+ * SECTION: GAME RUNNER
+ * Summary: Browser glue around the headless GameEngine. Owns the
+ * requestAnimationFrame loop, polls the keyboard, gamepad and touch adapters each frame,
+ * steps the simulation and hands the result to the canvas renderer.
+ * Gameplay sound effects are bound to the engine's events here; the UI
+ * subscribes through `events` (every subscription is dropped on cleanup).
+ * When given a replay, recorded inputs drive the player instead of the keyboard
+ * (the live devices then only control pause).
+ */
+export interface GameRunnerOptions extends GameEngineOptions {
+  replay?: ReplayData;
+  /** Key bindings per player slot */
+  keyBindings?: KeyBindings[];
+  /** Show the on-canvas touch controls; defaults to on for touch devices */
+  touchControls?: boolean;
+}
+
+export class GameRunner {
+  private engine: GameEngine;
+  private renderer: CanvasRenderer;
+  private keyboard: KeyboardInput;
+  private gamepad: GamepadInput = new GamepadInput();
+  private touch: TouchInput;
+  private replay: ReplayPlayer | null = null;
+  private playerCount: number;
+
+  private isRunning: boolean = true;
+  private animationFrameId: number = 0;
+  /** Engine pause state as of the previous frame */
+  private wasPaused: boolean = false;
+
+  // Fixed-timestep accumulator: real time is banked and spent in 60Hz ticks
+  private lastFrameTime: number = 0;
+  private accumulator: number = 0;
+
+  constructor(canvas: HTMLCanvasElement, options: GameRunnerOptions = {}) {
+    if (options.replay) {
+      this.replay = new ReplayPlayer(options.replay);
+      const { seed, players, difficulty, mode } = options.replay;
+      this.engine = new GameEngine({ ...options, seed, players, difficulty, mode });
+    } else {
+      this.engine = new GameEngine(options);
+    }
+    this.playerCount = this.engine.getPlayers().length;
+    this.renderer = new CanvasRenderer(canvas, this.engine);
+    this.keyboard = new KeyboardInput((options.keyBindings ?? DEFAULT_BINDING_SETS).slice(0, this.playerCount));
+    this.touch = new TouchInput(canvas);
+    this.touch.setVisible(options.touchControls ?? isTouchDevice());
+    bindGameAudio(this.engine.events);
+    bindGameMusic(this.engine.events, this.engine.getMusic());
+    this.loop();
+  }
+
+  public get events(): GameEventBus {
+    return this.engine.events;
+  }
+
+  public togglePause() {
+    this.engine.togglePause();
+  }
+
+  public setTouchControlsVisible(visible: boolean) {
+    this.touch.setVisible(visible);
+  }
+
+  public getReplay(): ReplayData {
+    return this.engine.getReplay();
+  }
+
+  public getRunStats(): RunStats {
+    return this.engine.getRunStats();
+  }
+
+  public toSave(): SaveData {
+    return this.engine.toSave();
+  }
+
+  /** True once the run has ended in victory or defeat */
+  public isFinished(): boolean {
+    return this.engine.isFinished();
+  }
+
+  /**
+   * SECTION: FIXED-TIMESTEP LOOP
+   * Summary: The simulation always advances in 1/60s ticks no matter the display
+   * refresh rate, and the renderer interpolates between the last two ticks.
+   * Long frames (tab switches, debugger pauses) are clamped so the engine never
+   * tries to catch up on seconds of backlog at once (spiral of death).
+   */
+  private loop(timestamp: number = 0) {
+    if (!this.isRunning) return;
+
+    if (this.lastFrameTime === 0) this.lastFrameTime = timestamp;
+    const frameTime = Math.min(timestamp - this.lastFrameTime, MAX_FRAME_MS);
+    this.lastFrameTime = timestamp;
+    this.accumulator += frameTime;
+
+    // Whatever is held while paused (e.g. A on the Resume button) must not act on the first resumed tick.
+    // The menu may resume before this frame runs, so the frame after a pause counts too.
+    const paused = this.engine.isPausedState();
+    if (paused || this.wasPaused) this.gamepad.holdUntilReleased();
+    this.wasPaused = paused;
+    // Touch is a single-player overlay: it always drives Player 1
+    const keys = this.keyboard.poll();
+    const pads = this.gamepad.poll(this.playerCount);
+    const liveInputs = keys.map((keyInput, slot) => {
+      const merged = mergeInputs(keyInput, pads[slot]);
+      return slot === 0 ? mergeInputs(merged, this.touch.poll()) : merged;
+    });
+    if (liveInputs.some(input => input.pause)) this.engine.togglePause();
+
+    let steps = 0;
+    while (this.accumulator >= TICK_MS && steps < MAX_TICKS_PER_FRAME) {
+      const inputs = this.replay ? this.replay.inputsAt(this.engine.getTick()) : liveInputs;
+      this.engine.step(...inputs);
+      this.accumulator -= TICK_MS;
+      steps++;
+    }
+    // Still behind after the cap: drop the backlog instead of slowing every frame down
+    if (steps === MAX_TICKS_PER_FRAME) this.accumulator = Math.min(this.accumulator, TICK_MS);
+
+    this.renderer.draw(this.accumulator / TICK_MS);
+    const player = this.engine.getPlayer();
+    this.touch.draw({
+      specialUnlocked: player.specialUnlocked,
+      specialCooldown: player.specialCooldownTimer / player.SPECIAL_COOLDOWN_MAX
+    });
+    this.animationFrameId = requestAnimationFrame((ts) => this.loop(ts));
+  }
+
+  public cleanup() {
+    this.isRunning = false;
+    this.keyboard.dispose();
+    this.touch.dispose();
+    this.engine.events.clear();
+    cancelAnimationFrame(this.animationFrameId);
+  }
+}
@@ -0,0 +1,126 @@
+import { EMPTY_INPUT, GameAction, type InputSnapshot } from '../types';
+import { ACTION_INPUTS } from './InputBindings';
+
+/**
+ * SECTION: GAMEPAD LAYOUT
+ * Summary: Button indices follow the W3C "standard" gamepad mapping, which
+ * browsers expose for Xbox, PlayStation and most generic pads.
+ */
+export const PAD_BUTTONS = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  START: 9,
+  DPAD_UP: 12,
+  DPAD_DOWN: 13,
+  DPAD_LEFT: 14,
+  DPAD_RIGHT: 15,
+} as const;
+
+/** Face button (bumpers and left trigger) → action. Movement comes from the d-pad and left stick. */
+export const PAD_ACTIONS: Partial<Record<GameAction, number>> = {
+  [GameAction.JAB]: PAD_BUTTONS.X,
+  [GameAction.STRAIGHT]: PAD_BUTTONS.Y,
+  [GameAction.DODGE]: PAD_BUTTONS.A,
+  [GameAction.SPECIAL]: PAD_BUTTONS.B,
+  [GameAction.GRAB]: PAD_BUTTONS.RB,
+  [GameAction.JUMP]: PAD_BUTTONS.LB,
+  [GameAction.GUARD]: PAD_BUTTONS.LT,
+};
+
+export const PAD_LABELS: Partial<Record<GameAction, string>> = {
+  [GameAction.JAB]: 'X / □',
+  [GameAction.STRAIGHT]: 'Y / △',
+  [GameAction.DODGE]: 'A / ✕',
+  [GameAction.SPECIAL]: 'B / ○',
+  [GameAction.GRAB]: 'RB / R1',
+  [GameAction.JUMP]: 'LB / L1',
+  [GameAction.GUARD]: 'LT / L2',
+  [GameAction.PAUSE]: 'START',
+};
+
+/** Stick travel (0..1) ignored around the center to absorb drift */
+export const STICK_DEADZONE = 0.35;
+
+/** Returns connected pads; empty when the Gamepad API is unavailable. */
+export function getConnectedGamepads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((pad): pad is Gamepad => !!pad && pad.connected);
+}
+
+export function isPadButtonPressed(pad: Gamepad, index: number): boolean {
+  return !!pad.buttons[index]?.pressed;
+}
+
+/**
+ * Reads the left stick with a radial deadzone, rescaled so motion starts at 0
+ * right past the deadzone instead of jumping.
+ */
+export function readStick(pad: Gamepad): { x: number; y: number } {
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  const magnitude = Math.sqrt(x * x + y * y);
+  if (magnitude < STICK_DEADZONE) return { x: 0, y: 0 };
+  const scaled = Math.min(1, (magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+  return { x: (x / magnitude) * scaled, y: (y / magnitude) * scaled };
+}
+
+/**
+ * SECTION: GAMEPAD INPUT ADAPTER
+ * Summary: Polls the Gamepad API once per frame and produces the same
+ * InputSnapshot the keyboard adapter does, so the engine can't tell them apart.
+ * Start is edge-detected into Player 1's pause flag; buttons held through a
+ * pause only count again once released.
+ * Pad assignment: solo merges every pad into Player 1. In co-op, with two pads
+ * each player gets one; a lone pad goes to Player 2 (Player 1 uses the keyboard).
+ */
+export class GamepadInput {
+  private startWasHeld: boolean = false;
+  /** Action buttons ("pad:button") ignored until they are let go */
+  private heldOver: Set<string> = new Set();
+
+  /**
+   * Ignores every action button currently down until it is released, so the
+   * A press that picks Resume on the pause overlay doesn't also dodge.
+   */
+  holdUntilReleased() {
+    getConnectedGamepads().forEach(pad => Object.values(PAD_ACTIONS).forEach(button => {
+      if (isPadButtonPressed(pad, button)) this.heldOver.add(`${pad.index}:${button}`);
+    }));
+  }
+
+  poll(players: number = 1): InputSnapshot[] {
+    const snapshots: InputSnapshot[] = Array.from({ length: players }, () => ({ ...EMPTY_INPUT }));
+    const pads = getConnectedGamepads();
+    let startHeld = false;
+
+    pads.forEach((pad, padIndex) => {
+      let slot = 0;
+      if (players > 1) slot = pads.length === 1 ? 1 : Math.min(padIndex, players - 1);
+      const snapshot = snapshots[slot];
+
+      const stick = readStick(pad);
+      // Half-tilt is enough to walk: the player moves at a fixed speed
+      if (stick.y < -0.5 || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_UP)) snapshot.up = true;
+      if (stick.y > 0.5 || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_DOWN)) snapshot.down = true;
+      if (stick.x < -0.5 || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_LEFT)) snapshot.left = true;
+      if (stick.x > 0.5 || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_RIGHT)) snapshot.right = true;
+
+      (Object.keys(PAD_ACTIONS) as GameAction[]).forEach(action => {
+        const button = PAD_ACTIONS[action]!;
+        const key = `${pad.index}:${button}`;
+        if (!isPadButtonPressed(pad, button)) this.heldOver.delete(key);
+        else if (!this.heldOver.has(key)) snapshot[ACTION_INPUTS[action]] = true;
+      });
+      if (isPadButtonPressed(pad, PAD_BUTTONS.START)) startHeld = true;
+    });
+
+    snapshots[0].pause = startHeld && !this.startWasHeld;
+    this.startWasHeld = startHeld;
+    return snapshots;
+  }
+}
@@ -0,0 +1,149 @@
+import { type DifficultyId, type GameMode, type GameStats, TICKS_PER_SECOND } from '../types';
+import { DEFAULT_DIFFICULTY, isDifficulty } from './Difficulty';
+
+/**
+ * SECTION: HIGH SCORES
+ * Summary: Arcade-style top-N table kept in localStorage. A finished run
+ * qualifies when its chaos beats the lowest entry (or the table has room);
+ * ties keep the older entry ahead. Endless and boss rush runs get tables of
+ * their own: endless ranks by waves survived, then chaos; boss rush by bosses
+ * defeated, then the fastest time. Tables export as CSV for anyone who tracks
+ * competitions in a spreadsheet.
+ */
+export const HIGH_SCORE_LIMIT = 10;
+export const INITIALS_LENGTH = 3;
+
+const STORAGE_KEY = 'sunset-brawler-highscores';
+
+export interface HighScoreEntry {
+  initials: string;
+  score: number;
+  /** Phase (endless wave, boss rush fight) the run ended in */
+  phase: number;
+  maxStreak: number;
+  maxMultiplier: number;
+  /** Play time in whole seconds (paused time excluded) */
+  seconds: number;
+  /** Date.now() when the entry was recorded */
+  date: number;
+  players: number;
+  victory: boolean;
+  /** Entries recorded before difficulties existed load as Normal */
+  difficulty: DifficultyId;
+  mode: GameMode;
+}
+
+const storageKey = (mode: GameMode) => mode === 'campaign' ? STORAGE_KEY : `${STORAGE_KEY}-${mode}`;
+
+/** Endless waves fully cleared before the run ended */
+export function wavesSurvived(entry: Pick<HighScoreEntry, 'phase'>): number {
+  return entry.phase - 1;
+}
+
+/** Boss rush fights won before the run ended */
+export function bossesDefeated(entry: Pick<HighScoreEntry, 'phase' | 'victory'>): number {
+  return entry.victory ? entry.phase : entry.phase - 1;
+}
+
+type RankedRun = Omit<HighScoreEntry, 'initials' | 'date'>;
+
+/** Strict ordering, so ties keep the older entry ahead */
+function ranksAbove(a: RankedRun, b: RankedRun): boolean {
+  if (a.mode === 'endless' && a.phase !== b.phase) return a.phase > b.phase;
+  if (a.mode === 'bossRush') {
+    if (bossesDefeated(a) !== bossesDefeated(b)) return bossesDefeated(a) > bossesDefeated(b);
+    return a.seconds < b.seconds;
+  }
+  return a.score > b.score;
+}
+
+/** Upper-cases and strips anything but A-Z, padded with '-' to three letters */
+export function normalizeInitials(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z]/g, '').slice(0, INITIALS_LENGTH).padEnd(INITIALS_LENGTH, '-');
+}
+
+/** The table entry (minus initials and date) for a finished run */
+export function entryFromStats(stats: GameStats): RankedRun {
+  return {
+    score: stats.chaos,
+    phase: stats.phase,
+    maxStreak: stats.maxStreak,
+    maxMultiplier: stats.maxMultiplier,
+    seconds: Math.floor(stats.ticks / TICKS_PER_SECOND),
+    players: stats.players.length,
+    victory: stats.isVictory,
+    difficulty: stats.difficulty,
+    mode: stats.mode,
+  };
+}
+
+export function qualifiesForHighScore(entry: RankedRun, scores: readonly HighScoreEntry[]): boolean {
+  if (entry.score <= 0) return false;
+  return scores.length < HIGH_SCORE_LIMIT || ranksAbove(entry, scores[scores.length - 1]);
+}
+
+function isEntry(v: unknown): v is HighScoreEntry {
+  if (typeof v !== 'object' || v === null) return false;
+  const entry = v as Record<string, unknown>;
+  return typeof entry.initials === 'string'
+    && [entry.score, entry.phase, entry.maxStreak, entry.maxMultiplier, entry.seconds, entry.date, entry.players].every(n => Number.isFinite(n));
+}
+
+/**
+ * SECTION: PERSISTENCE
+ * Summary: Malformed entries are skipped on load rather than discarding the
+ * whole table.
+ */
+export function loadHighScores(mode: GameMode = 'campaign'): HighScoreEntry[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const raw = JSON.parse(localStorage.getItem(storageKey(mode)) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.filter(isEntry)
+      .map(entry => ({
+        ...entry, initials: normalizeInitials(entry.initials), victory: entry.victory === true,
+        difficulty: isDifficulty(entry.difficulty) ? entry.difficulty : DEFAULT_DIFFICULTY, mode,
+      }))
+      .sort((a, b) => ranksAbove(a, b) ? -1 : ranksAbove(b, a) ? 1 : 0)
+      .slice(0, HIGH_SCORE_LIMIT);
+  } catch (e) {
+    console.warn("HighScores: Failed to load the table", e);
+    return [];
+  }
+}
+
+/**
+ * Inserts an entry into its mode's table, persists the table and returns it
+ * with the entry's 0-based rank (-1 when it did not make the cut).
+ */
+export function addHighScore(entry: HighScoreEntry): { scores: HighScoreEntry[]; rank: number } {
+  const scores = loadHighScores(entry.mode);
+  let rank = scores.findIndex(existing => ranksAbove(entry, existing));
+  if (rank === -1) rank = scores.length;
+  if (rank >= HIGH_SCORE_LIMIT) return { scores, rank: -1 };
+  scores.splice(rank, 0, { ...entry, initials: normalizeInitials(entry.initials) });
+  scores.length = Math.min(scores.length, HIGH_SCORE_LIMIT);
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(storageKey(entry.mode), JSON.stringify(scores));
+    } catch (e) {
+      console.warn("HighScores: Failed to save the table", e);
+    }
+  }
+  return { scores, rank };
+}
+
+export function formatPlayTime(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export function highScoresToCsv(scores: readonly HighScoreEntry[], mode: GameMode = 'campaign'): string {
+  const reached = { campaign: 'phase', endless: 'waves_survived', bossRush: 'bosses_defeated' }[mode];
+  const progress = (s: HighScoreEntry) => mode === 'endless' ? wavesSurvived(s) : mode === 'bossRush' ? bossesDefeated(s) : s.phase;
+  const header = `rank,initials,score,${reached},max_streak,max_multiplier,time,date,players,victory,difficulty`;
+  const rows = scores.map((s, i) => [
+    i + 1, s.initials, s.score, progress(s), s.maxStreak, s.maxMultiplier,
+    formatPlayTime(s.seconds), new Date(s.date).toISOString(), s.players, s.victory ? 'yes' : 'no', s.difficulty,
+  ].join(','));
+  return [header, ...rows].join('\n');
+}
@@ -0,0 +1,183 @@
+import { GameAction, type InputSnapshot } from '../types';
+
+/**
+ * SECTION: KEY BINDINGS
+ * Summary: Maps each GameAction to up to two physical key codes (KeyboardEvent.code),
+ * so layouts like AZERTY or arrow-key players can rebind freely.
+ * Bindings are persisted in localStorage and validated on load.
+ */
+export const BINDING_SLOTS = 2;
+
+export type KeyBindings = Record<GameAction, (string | null)[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  [GameAction.MOVE_UP]: ['KeyW', 'ArrowUp'],
+  [GameAction.MOVE_DOWN]: ['KeyS', 'ArrowDown'],
+  [GameAction.MOVE_LEFT]: ['KeyA', 'ArrowLeft'],
+  [GameAction.MOVE_RIGHT]: ['KeyD', 'ArrowRight'],
+  [GameAction.JAB]: ['KeyJ', null],
+  [GameAction.STRAIGHT]: ['KeyK', null],
+  [GameAction.DODGE]: ['KeyL', null],
+  [GameAction.SPECIAL]: ['KeyE', null],
+  [GameAction.GRAB]: ['KeyI', null],
+  [GameAction.JUMP]: ['Space', null],
+  [GameAction.GUARD]: ['KeyO', null],
+  [GameAction.PAUSE]: ['KeyP', 'Escape'],
+};
+
+/**
+ * Player 2 keyboard defaults for co-op: arrows plus the numpad, with
+ * B N M , . / and right shift as a laptop-friendly alternative. Pause stays shared.
+ */
+export const DEFAULT_P2_KEY_BINDINGS: KeyBindings = {
+  [GameAction.MOVE_UP]: ['ArrowUp', null],
+  [GameAction.MOVE_DOWN]: ['ArrowDown', null],
+  [GameAction.MOVE_LEFT]: ['ArrowLeft', null],
+  [GameAction.MOVE_RIGHT]: ['ArrowRight', null],
+  [GameAction.JAB]: ['Numpad1', 'Comma'],
+  [GameAction.STRAIGHT]: ['Numpad2', 'Period'],
+  [GameAction.DODGE]: ['Numpad3', 'Slash'],
+  [GameAction.SPECIAL]: ['Numpad0', 'ShiftRight'],
+  [GameAction.GRAB]: ['Numpad4', 'KeyM'],
+  [GameAction.JUMP]: ['Numpad5', 'KeyN'],
+  [GameAction.GUARD]: ['Numpad6', 'KeyB'],
+  [GameAction.PAUSE]: [null, null],
+};
+
+/** Defaults per player slot. */
+export const DEFAULT_BINDING_SETS: KeyBindings[] = [DEFAULT_KEY_BINDINGS, DEFAULT_P2_KEY_BINDINGS];
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  [GameAction.MOVE_UP]: 'Move Up',
+  [GameAction.MOVE_DOWN]: 'Move Down',
+  [GameAction.MOVE_LEFT]: 'Move Left',
+  [GameAction.MOVE_RIGHT]: 'Move Right',
+  [GameAction.JAB]: 'Jab',
+  [GameAction.STRAIGHT]: 'Straight',
+  [GameAction.DODGE]: 'Dodge',
+  [GameAction.SPECIAL]: 'Special',
+  [GameAction.GRAB]: 'Grab / Throw',
+  [GameAction.JUMP]: 'Jump',
+  [GameAction.GUARD]: 'Guard / Parry',
+  [GameAction.PAUSE]: 'Pause',
+};
+
+/** Which InputSnapshot flag each action drives. */
+export const ACTION_INPUTS: Record<GameAction, keyof InputSnapshot> = {
+  [GameAction.MOVE_UP]: 'up',
+  [GameAction.MOVE_DOWN]: 'down',
+  [GameAction.MOVE_LEFT]: 'left',
+  [GameAction.MOVE_RIGHT]: 'right',
+  [GameAction.JAB]: 'jab',
+  [GameAction.STRAIGHT]: 'straight',
+  [GameAction.DODGE]: 'dodge',
+  [GameAction.SPECIAL]: 'special',
+  [GameAction.GRAB]: 'grab',
+  [GameAction.JUMP]: 'jump',
+  [GameAction.GUARD]: 'guard',
+  [GameAction.PAUSE]: 'pause',
+};
+
+// Player 1 keeps the original key so bindings saved before co-op still load
+const STORAGE_KEYS = ['sunsetBrawler.keyBindings', 'sunsetBrawler.keyBindings.p2'];
+
+export function cloneBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings;
+  (Object.values(GameAction) as GameAction[]).forEach(action => {
+    copy[action] = [...bindings[action]];
+  });
+  return copy;
+}
+
+/** Returns the action currently bound to a key code, if any. */
+export function findActionForKey(bindings: KeyBindings, code: string): GameAction | null {
+  const actions = Object.values(GameAction) as GameAction[];
+  return actions.find(action => bindings[action].includes(code)) ?? null;
+}
+
+export interface RebindResult {
+  bindings: KeyBindings;
+  /** Action that previously owned the key and received the old key in exchange */
+  conflict: GameAction | null;
+}
+
+/**
+ * Binds a key to an action slot. If the key already belongs to another action,
+ * the two swap keys so no code ever triggers two actions at once.
+ */
+export function rebindKey(bindings: KeyBindings, action: GameAction, slot: number, code: string): RebindResult {
+  const next = cloneBindings(bindings);
+  const previous = next[action][slot] ?? null;
+  const owner = findActionForKey(next, code);
+  let conflict: GameAction | null = null;
+
+  if (owner) {
+    const ownerSlot = next[owner].indexOf(code);
+    if (owner === action) {
+      // Moving a key between this action's own slots
+      next[owner][ownerSlot] = previous;
+    } else {
+      next[owner][ownerSlot] = previous;
+      conflict = owner;
+    }
+  }
+  next[action][slot] = code;
+  return { bindings: next, conflict };
+}
+
+/**
+ * Turns a KeyboardEvent.code into a short label for the HUD and manuals.
+ */
+export function formatKeyCode(code: string | null): string {
+  if (!code) return '---';
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `NUM ${code.slice(6)}`;
+  const named: Record<string, string> = {
+    ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+    Escape: 'ESC', Space: 'SPACE', Enter: 'ENTER', Backspace: 'BKSP',
+    Comma: ',', Period: '.', Slash: '/', Semicolon: ';', Quote: "'", BracketLeft: '[', BracketRight: ']',
+    ShiftLeft: 'L-SHIFT', ShiftRight: 'R-SHIFT', ControlLeft: 'L-CTRL', ControlRight: 'R-CTRL',
+    AltLeft: 'L-ALT', AltRight: 'R-ALT', Tab: 'TAB',
+  };
+  return named[code] ?? code.toUpperCase();
+}
+
+/** Label of every key bound to an action, e.g. "W / ↑". */
+export function formatBinding(bindings: KeyBindings, action: GameAction): string {
+  const codes = bindings[action].filter((code): code is string => !!code);
+  return codes.length > 0 ? codes.map(formatKeyCode).join(' / ') : '---';
+}
+
+/**
+ * SECTION: PERSISTENCE
+ * Summary: Loads a player's bindings from localStorage, falling back to the
+ * default for any action that is missing or malformed (e.g. saved by an older version).
+ */
+export function loadKeyBindings(slot: number = 0): KeyBindings {
+  const bindings = cloneBindings(DEFAULT_BINDING_SETS[slot]);
+  if (typeof localStorage === 'undefined') return bindings;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS[slot]);
+    if (!raw) return bindings;
+    const saved = JSON.parse(raw);
+    (Object.values(GameAction) as GameAction[]).forEach(action => {
+      const slots = saved?.[action];
+      if (Array.isArray(slots) && slots.length === BINDING_SLOTS && slots.every(c => c === null || typeof c === 'string')) {
+        bindings[action] = [...slots];
+      }
+    });
+  } catch (e) {
+    console.warn("InputBindings: Failed to load saved bindings", e);
+  }
+  return bindings;
+}
+
+export function saveKeyBindings(bindings: KeyBindings, slot: number = 0) {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(STORAGE_KEYS[slot], JSON.stringify(bindings));
+  } catch (e) {
+    console.warn("InputBindings: Failed to save bindings", e);
+  }
+}
@@ -0,0 +1,59 @@
+import { EMPTY_INPUT, GameAction, type InputSnapshot } from '../types';
+import { ACTION_INPUTS, DEFAULT_KEY_BINDINGS, type KeyBindings, findActionForKey } from './InputBindings';
+
+/**
+ * SECTION: KEYBOARD INPUT ADAPTER
+ * Summary: Optional DOM adapter that listens to window key events and resolves
+ * the currently held keys through each player's KeyBindings into one
+ * InputSnapshot per player for GameEngine.step().
+ * When two players share the keyboard, a key bound for Player 2 is ignored for
+ * Player 1 (so P1's arrow-key alternates hand the arrows over to P2 in co-op).
+ */
+export class KeyboardInput {
+  private keys: Set<string> = new Set();
+  private bindingSets: KeyBindings[];
+  private pausePressed: boolean = false;
+
+  constructor(bindingSets: KeyBindings[] = [DEFAULT_KEY_BINDINGS]) {
+    this.bindingSets = bindingSets;
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (this.bindingSets.some(set => set[GameAction.PAUSE].includes(e.code))) this.pausePressed = true;
+    this.keys.add(e.code);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => this.keys.delete(e.code);
+
+  private isHeldFor(slot: number, code: string | null): boolean {
+    if (code === null || !this.keys.has(code)) return false;
+    return !this.bindingSets.slice(slot + 1).some(set => findActionForKey(set, code) !== null);
+  }
+
+  /**
+   * Returns each player's input for the next tick. The pause flag (reported on
+   * Player 1) is latched between polls so a quick tap is never lost.
+   */
+  poll(): InputSnapshot[] {
+    const snapshots = this.bindingSets.map((bindings, slot) => {
+      const snapshot: InputSnapshot = { ...EMPTY_INPUT };
+      (Object.values(GameAction) as GameAction[]).forEach(action => {
+        if (action === GameAction.PAUSE) return;
+        if (bindings[action].some(code => this.isHeldFor(slot, code))) {
+          snapshot[ACTION_INPUTS[action]] = true;
+        }
+      });
+      return snapshot;
+    });
+    snapshots[0].pause = this.pausePressed;
+    this.pausePressed = false;
+    return snapshots;
+  }
+
+  dispose() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+  }
+}
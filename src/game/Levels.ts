@@ -0,0 +1,174 @@
+import { ThemeType } from './AudioManager';
+import { BOSS_KINDS, type BossKind } from './Boss';
+import { hasArchetype } from './EnemyArchetypes';
+import { isPropKind } from './Props';
+import { type PropKind, WORLD_WIDTH } from '../types';
+import beachLevel from './levels/beach.json';
+
+/**
+ * SECTION: LEVEL DEFINITIONS
+ * Summary: A level is an ordered list of phases described in JSON (see
+ * levels/beach.json). Each phase sets its chaos target, enemy roster, spawn
+ * caps, optional boss, background, music, beach props and the heal granted on
+ * clear. The engine reads everything phase-specific from here, so adding a
+ * phase is a data change.
+ */
+export const LEVEL_FORMAT = 1;
+
+export interface EnemySpawn {
+  /** Registered archetype name (see EnemyArchetypes.ts) */
+  archetype: string;
+  /** Relative pick chance among the phase roster */
+  weight: number;
+  /** Optional overrides of the archetype's look and toughness */
+  color?: string;
+  hp?: number;
+}
+
+/** A breakable prop standing in the phase when it starts (see Props.ts) */
+export interface PropPlacement {
+  kind: PropKind;
+  /** Ground position (feet line), inside the playfield */
+  x: number;
+  y: number;
+}
+
+export interface BossDefinition {
+  kind: BossKind;
+  hp: number;
+  scale: number;
+  music: ThemeType;
+  /** Enemies kept on screen during the entrance, boss included */
+  escort: number;
+  /** Defeating this boss unlocks the players' special attack */
+  unlocksSpecial: boolean;
+}
+
+export interface PhaseDefinition {
+  name: string;
+  /** Chaos needed to clear the phase (or summon its boss) */
+  chaosTarget: number;
+  background: string;
+  /** Gradient used while the background image is loading or missing */
+  sky: 'day' | 'night';
+  music: ThemeType;
+  roster: EnemySpawn[];
+  /** Enemies spawned when the phase starts */
+  initialSpawn: number;
+  /** Living enemies the phase tops back up to as they fall */
+  maxActive: number;
+  /** HP restored to every player when the phase is cleared */
+  healOnClear: number;
+  boss: BossDefinition | null;
+  /** Optional; phases without it start bare */
+  props: PropPlacement[];
+}
+
+export interface LevelDefinition {
+  format: number;
+  name: string;
+  phases: PhaseDefinition[];
+}
+
+// Walkable band of the playfield (feet positions)
+const GROUND_TOP = 250;
+const GROUND_BOTTOM = 580;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isCount = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+const isPositive = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v > 0;
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isOptional = <T>(v: unknown, guard: (v: unknown) => v is T): v is T | undefined => v === undefined || guard(v);
+const isTheme = (v: unknown): v is ThemeType => typeof v === 'string' && Object.values(ThemeType).includes(v as ThemeType);
+
+function parseBoss(raw: unknown, where: string): BossDefinition | null {
+  if (raw === null || raw === undefined) return null;
+  if (!isObject(raw)) throw new Error(`${where}: boss must be an object or null`);
+  const kind = BOSS_KINDS.find(k => k === raw.kind);
+  if (!kind) throw new Error(`${where}: unknown boss kind "${raw.kind}"`);
+  if (!isPositive(raw.hp)) throw new Error(`${where}: boss hp must be positive`);
+  if (!isPositive(raw.scale)) throw new Error(`${where}: boss scale must be positive`);
+  if (!isTheme(raw.music)) throw new Error(`${where}: unknown boss music "${raw.music}"`);
+  if (!isCount(raw.escort)) throw new Error(`${where}: boss escort must be a whole number`);
+  return {
+    kind,
+    hp: raw.hp,
+    scale: raw.scale,
+    music: raw.music,
+    escort: raw.escort,
+    unlocksSpecial: raw.unlocksSpecial === true,
+  };
+}
+
+function parseProps(raw: unknown, where: string): PropPlacement[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) throw new Error(`${where}: props must be a list`);
+  return raw.map((entry: unknown): PropPlacement => {
+    if (!isObject(entry) || !isPropKind(entry.kind)) throw new Error(`${where} has an unknown prop "${isObject(entry) ? entry.kind : entry}"`);
+    if (typeof entry.x !== 'number' || entry.x < 0 || entry.x > WORLD_WIDTH
+      || typeof entry.y !== 'number' || entry.y < GROUND_TOP || entry.y > GROUND_BOTTOM) {
+      throw new Error(`${where}: prop "${entry.kind}" is placed off the ground`);
+    }
+    return { kind: entry.kind, x: entry.x, y: entry.y };
+  });
+}
+
+function parseSpawn(entry: unknown, where: string): EnemySpawn {
+  if (!isObject(entry)) throw new Error(`${where} has an invalid roster entry`);
+  const { weight = 1, color, hp } = entry;
+  if (!isPositive(weight) || !isOptional(color, isString) || !isOptional(hp, isPositive)) {
+    throw new Error(`${where} has an invalid roster entry`);
+  }
+  if (typeof entry.archetype !== 'string' || !hasArchetype(entry.archetype)) {
+    throw new Error(`${where}: unknown enemy archetype "${entry.archetype}"`);
+  }
+  return { archetype: entry.archetype, weight, color, hp };
+}
+
+function parsePhase(raw: unknown, index: number): PhaseDefinition {
+  const where = `Phase ${index + 1}`;
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+  if (typeof raw.name !== 'string' || !raw.name) throw new Error(`${where} is missing a name`);
+  if (!isPositive(raw.chaosTarget)) throw new Error(`${where}: chaosTarget must be positive`);
+  if (typeof raw.background !== 'string') throw new Error(`${where} is missing a background`);
+  if (raw.sky !== 'day' && raw.sky !== 'night') throw new Error(`${where}: sky must be "day" or "night"`);
+  if (!isTheme(raw.music)) throw new Error(`${where}: unknown music "${raw.music}"`);
+  if (!Array.isArray(raw.roster) || raw.roster.length === 0) throw new Error(`${where} needs at least one roster entry`);
+  const roster = raw.roster.map((entry: unknown) => parseSpawn(entry, where));
+  if (!isCount(raw.initialSpawn)) throw new Error(`${where}: initialSpawn must be a whole number`);
+  if (!isCount(raw.maxActive)) throw new Error(`${where}: maxActive must be a whole number`);
+  if (!isCount(raw.healOnClear)) throw new Error(`${where}: healOnClear must be a whole number`);
+  return {
+    name: raw.name,
+    chaosTarget: raw.chaosTarget,
+    background: raw.background,
+    sky: raw.sky,
+    music: raw.music,
+    roster,
+    initialSpawn: raw.initialSpawn,
+    maxActive: raw.maxActive,
+    healOnClear: raw.healOnClear,
+    boss: parseBoss(raw.boss, where),
+    props: parseProps(raw.props, where),
+  };
+}
+
+/**
+ * Validates a level definition. Throws an Error describing the first problem
+ * found; chaos targets must rise from phase to phase.
+ */
+export function parseLevel(raw: unknown): LevelDefinition {
+  if (!isObject(raw)) throw new Error("Level definition is empty");
+  if (raw.format !== LEVEL_FORMAT) throw new Error(`Unsupported level format: ${raw.format}`);
+  if (typeof raw.name !== 'string') throw new Error("Level is missing a name");
+  if (!Array.isArray(raw.phases) || raw.phases.length === 0) throw new Error("Level has no phases");
+  const phases = raw.phases.map((phase: unknown, i: number) => parsePhase(phase, i));
+  phases.forEach((phase, i) => {
+    if (i > 0 && phase.chaosTarget <= phases[i - 1].chaosTarget) {
+      throw new Error(`Phase ${i + 1}: chaosTarget must be higher than the previous phase`);
+    }
+  });
+  return { format: LEVEL_FORMAT, name: raw.name, phases };
+}
+
+export const DEFAULT_LEVEL: LevelDefinition = parseLevel(beachLevel);
@@ -0,0 +1,98 @@
+import type { PickupKind, Rect } from '../types';
+import { Random } from './Random';
+
+/**
+ * SECTION: PICKUPS
+ * Summary: Items dropped by defeated enemies (and anything else with a drop
+ * table). Food heals, a booster doubles the chaos awarded for a while, power
+ * and haste are timed damage and speed buffs, and a refill readies the
+ * special at once. Pickups are plain data owned by the engine: they lie where
+ * they fell for PICKUP_LIFETIME ticks, blink for the last PICKUP_BLINK_TIME
+ * and are collected by touching a living player's hitbox.
+ */
+export interface PickupType {
+  kind: PickupKind;
+  label: string;
+  /** Short glyph drawn on the item and shown on the HUD */
+  icon: string;
+  color: string;
+  /** Buff length in ticks; 0 for instant items */
+  duration: number;
+}
+
+export const PICKUP_TYPES: Record<PickupKind, PickupType> = {
+  food: { kind: 'food', label: 'Food', icon: '+', color: '#f97316', duration: 0 },
+  booster: { kind: 'booster', label: 'Chaos x2', icon: 'x2', color: '#eab308', duration: 60 * 12 },
+  power: { kind: 'power', label: 'Power', icon: 'P', color: '#ef4444', duration: 60 * 10 },
+  haste: { kind: 'haste', label: 'Haste', icon: 'S', color: '#22d3ee', duration: 60 * 10 },
+  refill: { kind: 'refill', label: 'Special', icon: '*', color: '#a855f7', duration: 0 },
+};
+
+export const FOOD_HEAL = 30;
+export const BOOSTER_CHAOS_MULTIPLIER = 2;
+export const POWER_DAMAGE_MULTIPLIER = 1.5;
+export const HASTE_SPEED_MULTIPLIER = 1.35;
+
+export const PICKUP_LIFETIME = 60 * 10;
+export const PICKUP_BLINK_TIME = 60 * 3;
+const PICKUP_SIZE = 28;
+
+export interface Pickup {
+  kind: PickupKind;
+  x: number;
+  y: number;
+  /** Ticks before it despawns */
+  ttl: number;
+}
+
+/** Chance of any drop, then a weighted pick among the items */
+export interface DropTable {
+  chance: number;
+  items: Partial<Record<PickupKind, number>>;
+}
+
+/** Rolls a table: the item dropped, or null */
+export function rollDrop(table: DropTable | undefined, rng: Random): PickupKind | null {
+  if (!table || !rng.chance(table.chance)) return null;
+  const items = Object.entries(table.items) as [PickupKind, number][];
+  let roll = rng.next() * items.reduce((sum, [, weight]) => sum + weight, 0);
+  for (const [kind, weight] of items) {
+    roll -= weight;
+    if (roll < 0) return kind;
+  }
+  return items[items.length - 1]?.[0] ?? null;
+}
+
+export function createPickup(kind: PickupKind, x: number, y: number): Pickup {
+  return { kind, x, y, ttl: PICKUP_LIFETIME };
+}
+
+/** Collision box on the ground around the drop point */
+export function getPickupHitbox(pickup: Pickup): Rect {
+  return { x: pickup.x - PICKUP_SIZE / 2, y: pickup.y - PICKUP_SIZE, width: PICKUP_SIZE, height: PICKUP_SIZE };
+}
+
+/** Drawn by the CanvasRenderer; blinks out over the last PICKUP_BLINK_TIME ticks */
+export function drawPickup(ctx: CanvasRenderingContext2D, pickup: Pickup) {
+  if (pickup.ttl < PICKUP_BLINK_TIME && Math.floor(pickup.ttl / 8) % 2 === 0) return;
+  const type = PICKUP_TYPES[pickup.kind];
+  const bob = Math.sin(pickup.ttl / 10) * 3;
+  ctx.save();
+  ctx.fillStyle = 'rgba(0,0,0,0.3)';
+  ctx.beginPath();
+  ctx.ellipse(pickup.x, pickup.y, PICKUP_SIZE / 2, 5, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = type.color;
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(pickup.x, pickup.y - PICKUP_SIZE / 2 - 4 + bob, PICKUP_SIZE / 2 - 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = 'bold 9px "Press Start 2P"';
+  ctx.fillText(type.icon, pickup.x, pickup.y - PICKUP_SIZE / 2 - 3 + bob);
+  ctx.restore();
+}
@@ -1,15 +1,86 @@
 
-import { Entity } from './Entity';
-import { EntityState } from '../types';
+import { Entity, ANIMATION_DATA } from './Entity';
+import { EntityState, type InputSnapshot } from '../types';
 import { SpriteManager } from './SpriteManager';
+import { Random } from './Random';
+import { AERIAL_MOVES, BASE_MOVES, COMBOS, type ComboMove, type ComboStrike, isComboChain, moveForState, resolveStrike } from './Combos';
+import type { PlayerSnapshot, StrikeSnapshot } from './SaveGame';
+import { HASTE_SPEED_MULTIPLIER, POWER_DAMAGE_MULTIPLIER } from './Pickups';
+import { Prop } from './Props';
 
 /**
  * SECTION: PLAYER CLASS
  * Summary: Specialized entity that handles user input and unique abilities.
  * Uses sprite sheet animations for visual rendering.
  * Includes the "Chaos Pulse" special attack which is a high-damage radial blast.
+ * Jabs and straights chain into combos (see Combos.ts) through cancel windows.
+ * GRAB lifts a prop; with hands full every attack button throws it instead.
+ * GRAB on a stunned enemy (or walking into one) starts a hold: jab lands
+ * grab-punches, straight or GRAB throws, towards the held direction.
+ * JUMP leaves the ground (see Entity.z); in the air the player steers and gets
+ * one strike per jump: jab for a flying kick, straight for a dive kick that
+ * drives down and forward until landing.
+ * Holding GUARD on the ground blocks hits from the front for chip damage,
+ * draining the guard meter (an empty meter breaks the guard and stuns). A
+ * fresh GUARD press is also a parry attempt, resolved by the engine.
  */
+export const PLAYER_TINTS = [
+  { color: '#3b82f6', filter: null },
+  { color: '#f97316', filter: 'hue-rotate(160deg) saturate(1.4)' },
+];
+
+const saveStrike = (strike: ComboStrike): StrikeSnapshot =>
+  ({ damage: strike.damage, knockback: strike.knockback, finisher: strike.finisher?.id ?? null });
+
+const loadStrike = (strike: StrikeSnapshot): ComboStrike =>
+  ({ damage: strike.damage, knockback: strike.knockback, finisher: COMBOS.find(c => c.id === strike.finisher) ?? null });
+
 export class Player extends Entity {
+  /** 0 for Player 1, 1 for Player 2 */
+  readonly slot: number;
+  /** Show a "P1"/"P2" tag above the head (co-op only) */
+  showTag: boolean = false;
+
+  // Co-op revive: a partner standing close for REVIVE_TIME ticks brings a downed player back
+  reviveProgress: number = 0;
+  readonly REVIVE_TIME = 120;
+  readonly REVIVE_RANGE = 70;
+  readonly REVIVE_HP = 30;
+
+  // Held by a grappler: input only counts fresh attack presses toward breaking free
+  heldBy: Entity | null = null;
+  struggle: number = 0;
+  readonly STRUGGLE_TO_ESCAPE = 8;
+
+  // Prop held overhead; the engine lifts, carries and throws it
+  carrying: Prop | null = null;
+  /** Fresh GRAB press this tick (or a throw while carrying), resolved by the engine */
+  grabPressed: boolean = false;
+
+  // Enemy held in a grab; the engine pins it and resolves holdAction each tick
+  holding: Entity | null = null;
+  holdAction: 'punch' | 'throw' | null = null;
+  grabPunches: number = 0;
+  /** Ticks before walking into an enemy grabs again */
+  grabCooldown: number = 0;
+  readonly GRAB_COOLDOWN = 40;
+
+  // Jumps: takeoff speed, and the dive kick's fall and forward speed
+  readonly JUMP_VELOCITY = 11;
+  readonly DIVE_VELOCITY = 9;
+  readonly DIVE_DRIFT = 7;
+  aerialUsed: boolean = false;
+
+  // Guard meter: drains as blocks soak damage, refills while the guard is down
+  guardMeter: number = 100;
+  readonly GUARD_MAX = 100;
+  readonly GUARD_REGEN = 0.5;
+  readonly GUARD_BREAK_STUN = 60;
+  /** Meter needed to raise the guard again, so a broken guard stays down a while */
+  readonly GUARD_RAISE = 50;
+  /** Fresh GUARD press this tick: a parry attempt, resolved by the engine */
+  guardPressed: boolean = false;
+
   specialUnlocked: boolean = false;
   specialCooldownTimer: number = 0;
   readonly SPECIAL_COOLDOWN_MAX = 60 * 15; // 15 seconds at 60fps
@@ -24,9 +95,37 @@ export class Player extends Entity {
   readonly SPECIAL_ACTIVE_MAX = 60; 
   readonly MAX_SPECIAL_RADIUS = 250; 
 
-  constructor(x: number, y: number) {
-    super(x, y, 100);
+  // Combo chain: moves linked so far and the strike the current swing deals
+  comboChain: ComboMove[] = [];
+  currentStrike: ComboStrike | null = null;
+  /** Strike used by the radial blast (a finisher when it closes a combo) */
+  specialStrike: ComboStrike = { ...BASE_MOVES.special, finisher: null };
+  /** Hits landed by the current chain; kept on screen for COMBO_DISPLAY_TIME ticks */
+  comboHits: number = 0;
+  comboDisplayTimer: number = 0;
+  readonly COMBO_DISPLAY_TIME = 90;
+  finisherName: string | null = null;
+  finisherTimer: number = 0;
+  // Run totals for the results screen: swings thrown, swings that connected, dodges
+  swings: number = 0;
+  swingsLanded: number = 0;
+  dodges: number = 0;
+  private swingLanded: boolean = false;
+  // Pickup buffs: ticks left on the power (damage) and haste (speed) effects
+  powerTimer: number = 0;
+  hasteTimer: number = 0;
+  // Follow-up pressed during the current swing, fired once the cancel window opens
+  private bufferedMove: ComboMove | null = null;
+  // Buttons held last tick, so follow-ups need a fresh press
+  private heldMoves = { jab: false, straight: false, special: false, grab: false, jump: false, guard: false };
+  // Enemies already resolved (hit or dodged) by the current swing
+  private struck = new Set<Entity>();
+
+  constructor(x: number, y: number, rng: Random, slot: number = 0) {
+    super(x, y, 100, rng);
     this.speed = 6.5;
+    this.slot = slot;
+    this.spriteFilter = PLAYER_TINTS[slot]?.filter ?? null;
 
     // Initialize sprite system
     this.spriteManager = new SpriteManager();
@@ -65,6 +164,11 @@ export class Player extends Entity {
     this.spriteStateMap.set(EntityState.HIT, { spriteKey: 'idle' });
     this.spriteStateMap.set(EntityState.DEAD, { spriteKey: 'idle' });
     this.spriteStateMap.set(EntityState.WINDING_UP, { spriteKey: 'idle' });
+    this.spriteStateMap.set(EntityState.GRABBING, { spriteKey: 'idle' });
+    this.spriteStateMap.set(EntityState.JUMPING, { spriteKey: 'idle' });
+    this.spriteStateMap.set(EntityState.JUMP_KICK, { spriteKey: 'punch' });
+    this.spriteStateMap.set(EntityState.DIVE_KICK, { spriteKey: 'punch' });
+    this.spriteStateMap.set(EntityState.GUARDING, { spriteKey: 'idle' });
   }
 
   /**
@@ -94,32 +198,317 @@ export class Player extends Entity {
     }
 
     super.update();
+    // A finished kick or a hit taken mid-air keeps falling in the jump pose
+    if (this.isAirborne && (this.state === EntityState.IDLE || this.state === EntityState.WALKING)) {
+      this.setState(EntityState.JUMPING);
+    }
     if (this.specialCooldownTimer > 0) {
       this.specialCooldownTimer--;
     }
+    if (this.comboDisplayTimer > 0 && --this.comboDisplayTimer === 0) this.comboHits = 0;
+    if (this.finisherTimer > 0) this.finisherTimer--;
+    if (this.powerTimer > 0) this.powerTimer--;
+    if (this.hasteTimer > 0) this.hasteTimer--;
+    if (this.grabCooldown > 0) this.grabCooldown--;
+    if (!this.isGuarding) this.guardMeter = Math.min(this.GUARD_MAX, this.guardMeter + this.GUARD_REGEN);
+  }
+
+  protected onLanding() {
+    this.aerialUsed = false;
+    if (this.state === EntityState.JUMPING || this.state === EntityState.JUMP_KICK || this.state === EntityState.DIVE_KICK) {
+      this.setState(EntityState.IDLE);
+    }
+  }
+
+  /**
+   * SECTION: GUARD & PARRY
+   * Summary: A blocked hit costs chip damage instead of the full hit and
+   * drains the meter (the engine sizes both); it pushes the player back a
+   * little but never stuns, unless it empties the meter.
+   * Returns null when i-frames swallow the hit.
+   */
+  get isGuarding(): boolean {
+    return this.state === EntityState.GUARDING;
+  }
+
+  blockHit(chip: number, drain: number, knockbackDir: number): 'blocked' | 'broken' | null {
+    if (this.invincibleTimer > 0 || this.state === EntityState.DEAD) return null;
+    this.hp -= chip;
+    this.invincibleTimer = 20;
+    this.vx = knockbackDir * 4;
+    this.guardMeter = Math.max(0, this.guardMeter - drain);
+    if (this.hp <= 0) {
+      this.hp = 0;
+      this.setState(EntityState.DEAD);
+      return 'blocked';
+    }
+    if (this.guardMeter > 0) return 'blocked';
+    this.setState(EntityState.HIT);
+    this.stateTimer = this.GUARD_BREAK_STUN;
+    return 'broken';
+  }
+
+  /** A parry landed: the callout (the guard meter is left as it was) */
+  registerParry() {
+    this.finisherName = 'PARRY!';
+    this.finisherTimer = 60;
+  }
+
+  /** Scale applied to the damage of every hit while a power pickup lasts */
+  get damageMultiplier(): number {
+    return this.powerTimer > 0 ? POWER_DAMAGE_MULTIPLIER : 1;
+  }
+
+  private get moveSpeed(): number {
+    return this.hasteTimer > 0 ? this.speed * HASTE_SPEED_MULTIPLIER : this.speed;
+  }
+
+  /**
+   * SECTION: COMBO TRACKING
+   * Summary: Each swing resolves an enemy at most once. Landed hits feed the
+   * combo counter; a connecting finisher shows its name over the player.
+   */
+  hasStruck(target: Entity): boolean {
+    return this.struck.has(target);
+  }
+
+  markStruck(target: Entity) {
+    this.struck.add(target);
+  }
+
+  registerHit(strike: ComboStrike) {
+    if (strike === this.currentStrike && !this.swingLanded) {
+      this.swingLanded = true;
+      this.swingsLanded++;
+    }
+    this.comboHits++;
+    this.comboDisplayTimer = this.COMBO_DISPLAY_TIME;
+    if (strike.finisher) {
+      this.finisherName = strike.finisher.name;
+      this.finisherTimer = 60;
+    }
+  }
+
+  private resetCombo() {
+    this.comboChain = [];
+    this.currentStrike = null;
+    this.bufferedMove = null;
+  }
+
+  private startAttack(move: 'jab' | 'straight', chain: ComboMove[]) {
+    if (chain.length === 1) this.comboHits = 0;
+    this.comboChain = chain;
+    this.currentStrike = resolveStrike(chain);
+    this.struck.clear();
+    this.swings++;
+    this.swingLanded = false;
+    this.setState(move === 'jab' ? EntityState.ATTACKING_JAB : EntityState.ATTACKING_STRAIGHT);
+  }
+
+  private startAerial(state: EntityState, move: { damage: number; knockback: number }) {
+    this.resetCombo();
+    this.aerialUsed = true;
+    this.currentStrike = { ...move, finisher: null };
+    this.struck.clear();
+    this.swings++;
+    this.swingLanded = false;
+    this.setState(state);
+  }
+
+  private startSpecial(chain: ComboMove[], onSpecial: () => void) {
+    this.specialStrike = chain.length > 1 ? resolveStrike(chain) : { ...BASE_MOVES.special, finisher: null };
+    this.resetCombo();
+    this.isChargingSpecial = true;
+    this.specialChargeTimer = this.SPECIAL_CHARGE_MAX;
+    this.setState(EntityState.IDLE);
+    this.specialCooldownTimer = this.SPECIAL_COOLDOWN_MAX;
+    onSpecial();
+  }
+
+  /**
+   * SECTION: CO-OP REVIVE
+   * Summary: A downed player (DEAD state in co-op) is revived with partial HP
+   * and a short window of invincibility.
+   */
+  get isDown(): boolean {
+    return this.state === EntityState.DEAD;
+  }
+
+  revive() {
+    this.hp = this.REVIVE_HP;
+    this.reviveProgress = 0;
+    this.setState(EntityState.IDLE);
+    this.invincibleTimer = 90;
+  }
+
+  /**
+   * SECTION: SAVE STATE
+   * Summary: The grappler holding the player and the enemies the current swing
+   * already resolved are stored as indices into the engine's enemy list (so is
+   * the enemy held in a grab), the carried prop as an index into its prop list.
+   */
+  toSnapshot(enemies: readonly Entity[], props: readonly Prop[]): PlayerSnapshot {
+    return {
+      ...this.snapshotEntity(),
+      reviveProgress: this.reviveProgress,
+      heldBy: this.heldBy ? enemies.indexOf(this.heldBy) : null,
+      struggle: this.struggle,
+      carrying: this.carrying ? props.indexOf(this.carrying) : null,
+      holding: this.holding ? enemies.indexOf(this.holding) : null,
+      grabPunches: this.grabPunches,
+      grabCooldown: this.grabCooldown,
+      aerialUsed: this.aerialUsed,
+      guardMeter: this.guardMeter,
+      specialUnlocked: this.specialUnlocked,
+      specialCooldownTimer: this.specialCooldownTimer,
+      isChargingSpecial: this.isChargingSpecial,
+      specialChargeTimer: this.specialChargeTimer,
+      specialAttackActive: this.specialAttackActive,
+      specialAttackRadius: this.specialAttackRadius,
+      specialActiveTimer: this.specialActiveTimer,
+      comboChain: [...this.comboChain],
+      currentStrike: this.currentStrike && saveStrike(this.currentStrike),
+      specialStrike: saveStrike(this.specialStrike),
+      comboHits: this.comboHits,
+      comboDisplayTimer: this.comboDisplayTimer,
+      finisherName: this.finisherName,
+      finisherTimer: this.finisherTimer,
+      bufferedMove: this.bufferedMove,
+      heldMoves: { ...this.heldMoves },
+      swings: this.swings,
+      swingsLanded: this.swingsLanded,
+      dodges: this.dodges,
+      swingLanded: this.swingLanded,
+      powerTimer: this.powerTimer,
+      hasteTimer: this.hasteTimer,
+      struck: enemies.flatMap((enemy, i) => this.struck.has(enemy) ? [i] : []),
+    };
+  }
+
+  restoreSnapshot(s: PlayerSnapshot, enemies: readonly Entity[], props: readonly Prop[]) {
+    this.restoreEntity(s);
+    this.reviveProgress = s.reviveProgress;
+    this.heldBy = s.heldBy === null ? null : enemies[s.heldBy] ?? null;
+    this.struggle = s.struggle;
+    this.carrying = s.carrying === null ? null : props[s.carrying] ?? null;
+    this.holding = s.holding === null ? null : enemies[s.holding] ?? null;
+    this.grabPunches = s.grabPunches;
+    this.grabCooldown = s.grabCooldown;
+    this.aerialUsed = s.aerialUsed;
+    this.guardMeter = s.guardMeter;
+    this.specialUnlocked = s.specialUnlocked;
+    this.specialCooldownTimer = s.specialCooldownTimer;
+    this.isChargingSpecial = s.isChargingSpecial;
+    this.specialChargeTimer = s.specialChargeTimer;
+    this.specialAttackActive = s.specialAttackActive;
+    this.specialAttackRadius = s.specialAttackRadius;
+    this.specialActiveTimer = s.specialActiveTimer;
+    this.comboChain = [...s.comboChain];
+    this.currentStrike = s.currentStrike && loadStrike(s.currentStrike);
+    this.specialStrike = loadStrike(s.specialStrike);
+    this.comboHits = s.comboHits;
+    this.comboDisplayTimer = s.comboDisplayTimer;
+    this.finisherName = s.finisherName;
+    this.finisherTimer = s.finisherTimer;
+    this.bufferedMove = s.bufferedMove;
+    this.heldMoves = { ...s.heldMoves };
+    this.swings = s.swings;
+    this.swingsLanded = s.swingsLanded;
+    this.dodges = s.dodges;
+    this.swingLanded = s.swingLanded;
+    this.powerTimer = s.powerTimer;
+    this.hasteTimer = s.hasteTimer;
+    this.struck = new Set(s.struck.map(i => enemies[i]).filter(Boolean));
   }
 
   /**
    * SECTION: INPUT HANDLING
-   * Summary: Maps keys to movements and combat actions.
+   * Summary: Maps an input snapshot to movements and combat actions.
    */
-  handleInput(keys: Set<string>, onSpecial: () => void) {
+  handleInput(input: InputSnapshot, onSpecial: () => void) {
+    const pressed = {
+      jab: input.jab && !this.heldMoves.jab,
+      straight: input.straight && !this.heldMoves.straight,
+      special: input.special && !this.heldMoves.special,
+      grab: input.grab && !this.heldMoves.grab,
+      jump: input.jump && !this.heldMoves.jump,
+      guard: input.guard && !this.heldMoves.guard,
+    };
+    this.heldMoves = {
+      jab: input.jab, straight: input.straight, special: input.special, grab: input.grab, jump: input.jump, guard: input.guard,
+    };
+    this.grabPressed = false;
+    this.guardPressed = false;
+    this.holdAction = null;
+
+    if (this.heldBy) {
+      if (pressed.jab || pressed.straight || pressed.special) this.struggle++;
+      this.resetCombo();
+      return;
+    }
+
     // Prevent movement while stunned, dead, or channeling special
-    if (this.state === EntityState.HIT || this.state === EntityState.DEAD || this.isChargingSpecial || this.specialAttackActive) return;
+    if (this.state === EntityState.HIT || this.state === EntityState.DEAD) {
+      this.resetCombo();
+      return;
+    }
+    if (this.isChargingSpecial || this.specialAttackActive) return;
 
-    // Trigger Special [E]
-    if (keys.has('KeyE') && this.specialUnlocked && this.specialCooldownTimer === 0) {
-      this.isChargingSpecial = true;
-      this.specialChargeTimer = this.SPECIAL_CHARGE_MAX;
-      this.setState(EntityState.IDLE);
-      this.specialCooldownTimer = this.SPECIAL_COOLDOWN_MAX;
-      onSpecial();
+    // Airborne: one strike per jump (jab kicks, straight dives), otherwise steer
+    if (this.isAirborne) {
+      if (this.state === EntityState.DIVE_KICK) {
+        this.x += this.facing * this.DIVE_DRIFT;
+        return;
+      }
+      if (!this.aerialUsed && this.state === EntityState.JUMPING) {
+        if (pressed.jab) {
+          this.startAerial(EntityState.JUMP_KICK, AERIAL_MOVES.jumpKick);
+        } else if (pressed.straight) {
+          this.startAerial(EntityState.DIVE_KICK, AERIAL_MOVES.diveKick);
+          this.vz = Math.min(this.vz, -this.DIVE_VELOCITY);
+          return;
+        }
+      }
+      this.move(input, this.state === EntityState.JUMPING);
       return;
     }
 
-    // Trigger Dodge [L]
-    if (keys.has('KeyL') && this.state !== EntityState.DODGING) {
+    // Holding an enemy: jab punches, straight or GRAB throws (turning first if a direction is held)
+    if (this.holding) {
+      this.resetCombo();
+      if (pressed.jab) {
+        this.holdAction = 'punch';
+      } else if (pressed.straight || pressed.grab) {
+        if (input.left !== input.right) this.facing = input.left ? -1 : 1;
+        this.holdAction = 'throw';
+      }
+      return;
+    }
+
+    // Hands full: walk only, and any attack button throws
+    if (this.carrying) {
+      this.resetCombo();
+      this.grabPressed = pressed.grab || pressed.jab || pressed.straight;
+      this.walk(input, false);
+      return;
+    }
+
+    const specialReady = this.specialUnlocked && this.specialCooldownTimer === 0;
+    const attackMove = moveForState(this.state);
+    // The chain breaks as soon as a swing plays out without a follow-up
+    if (!attackMove && this.comboChain.length > 0) this.resetCombo();
+
+    // Trigger Special (SPECIAL action)
+    if (!attackMove && input.special && specialReady) {
+      this.startSpecial([], onSpecial);
+      return;
+    }
+
+    // Trigger Dodge (DODGE action)
+    if (input.dodge && this.state !== EntityState.DODGING) {
+      this.resetCombo();
       this.setState(EntityState.DODGING);
+      this.dodges++;
       this.invincibleTimer = 35;
       return;
     }
@@ -129,40 +518,87 @@ export class Player extends Entity {
       return;
     }
 
+    // Guard: hold to block (while the meter lasts), a fresh press also tries a parry
+    const canGuard = this.isGuarding ? this.guardMeter > 0 : this.guardMeter >= this.GUARD_RAISE;
+    if (input.guard && !attackMove && canGuard) {
+      this.resetCombo();
+      this.guardPressed = pressed.guard;
+      this.setState(EntityState.GUARDING);
+      return;
+    }
+
+    // Jumps take off from a standstill or a walk, not mid-swing
+    if (pressed.jump && !attackMove) {
+      this.resetCombo();
+      this.vz = this.JUMP_VELOCITY;
+      this.setState(EntityState.JUMPING);
+      return;
+    }
+
+    // Combo links: buffer a fresh press, then cancel into it once the window opens
+    if (attackMove) {
+      if (pressed.jab) this.bufferedMove = 'jab';
+      else if (pressed.straight) this.bufferedMove = 'straight';
+      else if (pressed.special) this.bufferedMove = 'special';
+
+      const cancelFrame = ANIMATION_DATA[this.state].cancelFrame;
+      if (this.bufferedMove && cancelFrame !== undefined && this.currentFrame >= cancelFrame) {
+        const next = this.bufferedMove;
+        const chain = [...this.comboChain, next];
+        this.bufferedMove = null;
+        if (isComboChain(chain)) {
+          if (next === 'special') {
+            if (specialReady) {
+              this.startSpecial(chain, onSpecial);
+              return;
+            }
+          } else {
+            this.startAttack(next, chain);
+            return;
+          }
+        }
+      }
+    }
+
     // Attack inputs
-    const isAttacking = this.state === EntityState.ATTACKING_JAB || this.state === EntityState.ATTACKING_STRAIGHT;
+    const isAttacking = attackMove !== null;
     if (!isAttacking) {
-        if (keys.has('KeyJ')) {
-            this.setState(EntityState.ATTACKING_JAB);
+        if (input.jab) {
+            this.startAttack('jab', ['jab']);
             return;
-        } else if (keys.has('KeyK')) {
-            this.setState(EntityState.ATTACKING_STRAIGHT);
+        } else if (input.straight) {
+            this.startAttack('straight', ['straight']);
             return;
         }
+        this.grabPressed = pressed.grab;
     }
 
-    // Directional Movement
+    this.walk(input, isAttacking);
+  }
+
+  /** Directional movement; attacks keep their facing and animation */
+  private walk(input: InputSnapshot, isAttacking: boolean) {
+    const moved = this.move(input, !isAttacking);
+    if (!isAttacking) {
+      this.setState(moved ? EntityState.WALKING : EntityState.IDLE);
+    }
+  }
+
+  /** Moves along the held direction (turning to face it if asked); false when none is held */
+  private move(input: InputSnapshot, turn: boolean): boolean {
     let dx = 0;
     let dy = 0;
-    if (keys.has('KeyW')) dy -= 1;
-    if (keys.has('KeyS')) dy += 1;
-    if (keys.has('KeyA')) dx -= 1;
-    if (keys.has('KeyD')) dx += 1;
-
-    if (dx !== 0 || dy !== 0) {
-      if (dx !== 0 && !isAttacking) this.facing = dx > 0 ? 1 : -1;
-      const length = Math.sqrt(dx * dx + dy * dy);
-      this.x += (dx / length) * this.speed;
-      this.y += (dy / length) * this.speed;
-
-      if (!isAttacking) {
-        this.setState(EntityState.WALKING);
-      }
-    } else {
-      if (!isAttacking) {
-        this.setState(EntityState.IDLE);
-      }
-    }
+    if (input.up) dy -= 1;
+    if (input.down) dy += 1;
+    if (input.left) dx -= 1;
+    if (input.right) dx += 1;
+    if (dx === 0 && dy === 0) return false;
+
+    if (dx !== 0 && turn) this.facing = dx > 0 ? 1 : -1;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    this.x += (dx / length) * this.moveSpeed;
+    this.y += (dy / length) * this.moveSpeed;
+    return true;
   }
 
   /**
@@ -214,11 +650,61 @@ export class Player extends Entity {
     
     // Render the character (sprite or procedural fallback via Entity.draw)
     super.draw(ctx);
+
+    const tint = PLAYER_TINTS[this.slot]?.color ?? '#3b82f6';
+
+    // Guard: an arc in front that dims and reddens as the meter drains
+    if (this.isGuarding) {
+      const meter = this.guardMeter / this.GUARD_MAX;
+      ctx.save();
+      ctx.strokeStyle = meter < 0.25 ? '#f87171' : '#7dd3fc';
+      ctx.globalAlpha = 0.4 + meter * 0.5;
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      const centre = this.facing === 1 ? 0 : Math.PI;
+      ctx.arc(this.x, this.y - 40, 38, centre - 0.9, centre + 0.9);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Combo finisher callout
+    if (this.finisherTimer > 0 && this.finisherName) {
+      ctx.save();
+      ctx.globalAlpha = Math.min(1, this.finisherTimer / 20);
+      ctx.fillStyle = '#facc15';
+      ctx.strokeStyle = '#000000';
+      ctx.lineWidth = 3;
+      ctx.font = 'bold 12px "Press Start 2P"';
+      ctx.textAlign = 'center';
+      const y = this.y - this.height * this.scale - 48 - (60 - this.finisherTimer) * 0.4;
+      ctx.strokeText(this.finisherName, this.x, y);
+      ctx.fillText(this.finisherName, this.x, y);
+      ctx.restore();
+    }
+
+    // Co-op: player tag and revive progress ring
+    if (this.showTag) {
+      ctx.save();
+      ctx.fillStyle = tint;
+      ctx.font = 'bold 10px "Press Start 2P"';
+      ctx.textAlign = 'center';
+      ctx.fillText(`P${this.slot + 1}`, this.x, this.y - this.height * this.scale - 30);
+      ctx.restore();
+    }
+    if (this.isDown && this.reviveProgress > 0) {
+      ctx.save();
+      ctx.strokeStyle = '#22c55e';
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.arc(this.x, this.y - 40, 24, -Math.PI / 2, -Math.PI / 2 + (this.reviveProgress / this.REVIVE_TIME) * Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
   }
 
   protected getColor(): string {
     if (this.isChargingSpecial) return '#ffffff';
-    return '#3b82f6';
+    return PLAYER_TINTS[this.slot]?.color ?? '#3b82f6';
   }
 }
 
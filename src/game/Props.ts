@@ -0,0 +1,309 @@
+import type { PropKind, Rect } from '../types';
+import type { DropTable } from './Pickups';
+import type { PropSnapshot } from './SaveGame';
+
+/**
+ * SECTION: BEACH PROPS
+ * Summary: Breakable scenery placed by the level (see PhaseDefinition.props).
+ * Props stand in the playfield and are drawn Y-sorted with the fighters.
+ * Player swings and special blasts chip their HP; a wrecked prop bursts into
+ * debris, pays its chaos (times the multiplier) and rolls its drop table.
+ * Throwable props can be lifted with GRAB and thrown with GRAB or an attack
+ * button: they fly in an arc, hit the first enemy in their lane and shatter
+ * on impact or landing. The engine owns the list and resolves every
+ * collision; this module only keeps the per-prop state and draws it.
+ */
+export interface PropType {
+  kind: PropKind;
+  label: string;
+  hp: number;
+  width: number;
+  height: number;
+  /** Chaos for wrecking it, before the multiplier */
+  chaos: number;
+  /** Can be lifted and thrown */
+  throwable: boolean;
+  /** Damage dealt to the enemy a thrown prop hits */
+  throwDamage: number;
+  drops?: DropTable;
+  /** Main colour first; debris cycles through all of them */
+  colors: string[];
+}
+
+export const PROP_TYPES: Record<PropKind, PropType> = {
+  cooler: {
+    kind: 'cooler', label: 'Cooler', hp: 20, width: 44, height: 30, chaos: 20, throwable: true, throwDamage: 25,
+    drops: { chance: 0.6, items: { food: 3, booster: 1 } }, colors: ['#2563eb', '#f8fafc', '#93c5fd'],
+  },
+  umbrella: {
+    kind: 'umbrella', label: 'Beach Umbrella', hp: 15, width: 70, height: 100, chaos: 15, throwable: false, throwDamage: 0,
+    drops: { chance: 0.25, items: { haste: 1, power: 1 } }, colors: ['#ef4444', '#fef3c7', '#78716c'],
+  },
+  surfboard: {
+    kind: 'surfboard', label: 'Surfboard', hp: 18, width: 20, height: 80, chaos: 15, throwable: true, throwDamage: 20,
+    drops: { chance: 0.3, items: { haste: 2, refill: 1 } }, colors: ['#14b8a6', '#fde047', '#f8fafc'],
+  },
+  sandcastle: {
+    kind: 'sandcastle', label: 'Sandcastle', hp: 10, width: 56, height: 40, chaos: 10, throwable: false, throwDamage: 0,
+    drops: { chance: 0.4, items: { refill: 1, booster: 2, food: 1 } }, colors: ['#d6b370', '#b45309', '#fde68a'],
+  },
+};
+
+export const PROP_KINDS = Object.keys(PROP_TYPES) as PropKind[];
+
+export function isPropKind(value: unknown): value is PropKind {
+  return typeof value === 'string' && value in PROP_TYPES;
+}
+
+export type PropState = 'standing' | 'carried' | 'thrown' | 'broken';
+
+export const PROP_STATES: readonly PropState[] = ['standing', 'carried', 'thrown', 'broken'];
+
+// Prop i-frames after a hit, so one swing only lands once
+const HIT_INVINCIBILITY = 12;
+// Height of a carried prop above its carrier's feet
+const CARRY_HEIGHT = 70;
+const THROW_SPEED = 11;
+const THROW_LIFT = 3;
+const GRAVITY = 0.35;
+const DEBRIS_TIME = 40;
+const DEBRIS_PIECES = 8;
+// How close a player's feet must be to lift a prop
+const LIFT_REACH = 50;
+const LIFT_DEPTH = 24;
+
+export class Prop {
+  readonly type: PropType;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  /** Height above the ground while carried or in flight */
+  z: number = 0;
+  prevZ: number = 0;
+  vx: number = 0;
+  vz: number = 0;
+  hp: number;
+  state: PropState = 'standing';
+  facing: 1 | -1 = 1;
+  /** Shake and i-frames after a hit */
+  hitTimer: number = 0;
+  debrisTimer: number = 0;
+  /** Slot of the player who threw it */
+  thrownBy: number | null = null;
+
+  constructor(kind: PropKind, x: number, y: number) {
+    this.type = PROP_TYPES[kind];
+    this.x = this.prevX = x;
+    this.y = this.prevY = y;
+    this.hp = this.type.hp;
+  }
+
+  getHitbox(): Rect {
+    const { width, height } = this.type;
+    return { x: this.x - width / 2, y: this.y - this.z - height, width, height };
+  }
+
+  canBeLiftedFrom(x: number, y: number): boolean {
+    return this.state === 'standing' && this.type.throwable
+      && Math.abs(x - this.x) < LIFT_REACH && Math.abs(y - this.y) < LIFT_DEPTH;
+  }
+
+  /** True if the hit landed; check hp afterwards to see if it broke */
+  takeHit(damage: number): boolean {
+    if (this.state !== 'standing' || this.hitTimer > 0) return false;
+    this.hp = Math.max(0, this.hp - damage);
+    this.hitTimer = HIT_INVINCIBILITY;
+    return true;
+  }
+
+  lift() {
+    this.state = 'carried';
+    this.z = CARRY_HEIGHT;
+  }
+
+  /** Keeps a carried prop overhead, drawn just in front of its carrier */
+  carry(x: number, y: number, facing: 1 | -1) {
+    this.x = x;
+    this.y = y + 1;
+    this.facing = facing;
+  }
+
+  /** Set back down where it is, e.g. when the carrier gets hit */
+  putDown() {
+    this.state = 'standing';
+    this.z = 0;
+    this.prevZ = 0;
+  }
+
+  launch(facing: 1 | -1, slot: number) {
+    this.state = 'thrown';
+    this.facing = facing;
+    this.vx = facing * THROW_SPEED;
+    this.vz = THROW_LIFT;
+    this.thrownBy = slot;
+  }
+
+  shatter() {
+    this.state = 'broken';
+    this.hp = 0;
+    this.z = 0;
+    this.vx = 0;
+    this.vz = 0;
+    this.debrisTimer = DEBRIS_TIME;
+  }
+
+  /** Flight and timers; returns true on the tick a thrown prop hits the ground */
+  update(): boolean {
+    if (this.hitTimer > 0) this.hitTimer--;
+    if (this.state === 'broken') {
+      if (this.debrisTimer > 0) this.debrisTimer--;
+    } else if (this.state === 'thrown') {
+      this.x += this.vx;
+      this.z += this.vz;
+      this.vz -= GRAVITY;
+      if (this.z <= 0) {
+        this.z = 0;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Debris has settled, or a thrown prop left the screen */
+  isGone(worldWidth: number): boolean {
+    if (this.state === 'broken') return this.debrisTimer === 0;
+    return this.x < -60 || this.x > worldWidth + 60;
+  }
+
+  toSnapshot(): PropSnapshot {
+    const { x, y, z, vx, vz, hp, state, facing, hitTimer, debrisTimer, thrownBy } = this;
+    return { kind: this.type.kind, x, y, z, vx, vz, hp, state, facing, hitTimer, debrisTimer, thrownBy };
+  }
+
+  static fromSnapshot(s: PropSnapshot): Prop {
+    const prop = new Prop(s.kind, s.x, s.y);
+    prop.z = prop.prevZ = s.z;
+    prop.vx = s.vx;
+    prop.vz = s.vz;
+    prop.hp = s.hp;
+    prop.state = s.state;
+    prop.facing = s.facing;
+    prop.hitTimer = s.hitTimer;
+    prop.debrisTimer = s.debrisTimer;
+    prop.thrownBy = s.thrownBy;
+    return prop;
+  }
+
+  /**
+   * SECTION: RENDERING
+   * Summary: Same interpolation contract as Entity (savePosition() before each
+   * tick, drawInterpolated() between ticks) so the renderer can sort props in
+   * with the fighters. Everything is drawn procedurally.
+   */
+  savePosition() {
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.prevZ = this.z;
+  }
+
+  drawInterpolated(ctx: CanvasRenderingContext2D, alpha: number) {
+    const x = this.prevX + (this.x - this.prevX) * alpha;
+    const y = this.prevY + (this.y - this.prevY) * alpha;
+    const z = this.prevZ + (this.z - this.prevZ) * alpha;
+    if (this.state === 'broken') {
+      this.drawDebris(ctx, x, y);
+      return;
+    }
+    ctx.save();
+    ctx.fillStyle = 'rgba(0,0,0,0.3)';
+    ctx.beginPath();
+    ctx.ellipse(x, y, this.type.width / 2 + 4, 6, 0, 0, Math.PI * 2);
+    ctx.fill();
+    const shake = this.hitTimer > 0 ? Math.sin(this.hitTimer * 2) * 3 : 0;
+    ctx.translate(x + shake, y - z);
+    // A lifted surfboard travels lying flat, centred on its carrier
+    if (this.state !== 'standing' && this.type.kind === 'surfboard') {
+      ctx.translate(0, -this.type.width / 2);
+      ctx.rotate(this.facing * Math.PI / 2);
+      ctx.translate(0, this.type.height / 2);
+    }
+    if (this.hitTimer > HIT_INVINCIBILITY / 2) ctx.globalAlpha = 0.7;
+    this.drawBody(ctx);
+    ctx.restore();
+  }
+
+  /** Drawn with its base at the origin */
+  private drawBody(ctx: CanvasRenderingContext2D) {
+    const { width: w, height: h, colors } = this.type;
+    ctx.strokeStyle = '#0f172a';
+    ctx.lineWidth = 2;
+    switch (this.type.kind) {
+      case 'cooler':
+        ctx.fillStyle = colors[0];
+        ctx.fillRect(-w / 2, -h, w, h);
+        ctx.strokeRect(-w / 2, -h, w, h);
+        ctx.fillStyle = colors[1];
+        ctx.fillRect(-w / 2 - 2, -h - 6, w + 4, 8);
+        ctx.strokeRect(-w / 2 - 2, -h - 6, w + 4, 8);
+        ctx.fillStyle = colors[2];
+        ctx.fillRect(-8, -h + 8, 16, 4);
+        break;
+      case 'umbrella':
+        ctx.fillStyle = colors[2];
+        ctx.fillRect(-2, -h + 10, 4, h - 10);
+        for (let i = 0; i < 6; i++) {
+          ctx.fillStyle = colors[i % 2];
+          ctx.beginPath();
+          ctx.moveTo(0, -h + 20);
+          ctx.arc(0, -h + 20, w / 2, Math.PI + (i * Math.PI) / 6, Math.PI + ((i + 1) * Math.PI) / 6);
+          ctx.closePath();
+          ctx.fill();
+        }
+        ctx.beginPath();
+        ctx.arc(0, -h + 20, w / 2, Math.PI, Math.PI * 2);
+        ctx.stroke();
+        break;
+      case 'surfboard':
+        ctx.fillStyle = colors[0];
+        ctx.beginPath();
+        ctx.ellipse(0, -h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.fillStyle = colors[1];
+        ctx.fillRect(-w / 2 + 3, -h / 2 - 3, w - 6, 6);
+        break;
+      case 'sandcastle':
+        ctx.fillStyle = colors[0];
+        ctx.fillRect(-w / 2, -h / 2, w, h / 2);
+        ctx.fillRect(-w / 2, -h, 14, h);
+        ctx.fillRect(w / 2 - 14, -h, 14, h);
+        ctx.fillRect(-8, -h * 0.8, 16, h * 0.8);
+        ctx.fillStyle = colors[1];
+        ctx.fillRect(-5, -12, 10, 12);
+        ctx.fillStyle = colors[2];
+        ctx.beginPath();
+        ctx.moveTo(0, -h * 0.8);
+        ctx.lineTo(0, -h - 14);
+        ctx.lineTo(10, -h - 10);
+        ctx.lineTo(0, -h - 6);
+        ctx.fill();
+        break;
+    }
+  }
+
+  private drawDebris(ctx: CanvasRenderingContext2D, x: number, y: number) {
+    const elapsed = DEBRIS_TIME - this.debrisTimer;
+    const { height, colors } = this.type;
+    ctx.save();
+    ctx.globalAlpha = this.debrisTimer / DEBRIS_TIME;
+    for (let i = 0; i < DEBRIS_PIECES; i++) {
+      const angle = (i / DEBRIS_PIECES) * Math.PI * 2;
+      const px = x + Math.cos(angle) * 3 * elapsed;
+      const py = Math.min(y, y - height / 2 - (2 + (i % 3)) * elapsed + 0.2 * elapsed * elapsed);
+      ctx.fillStyle = colors[i % colors.length];
+      ctx.fillRect(px - 4, py - 4, 8, 8);
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * SECTION: SEEDED RANDOM
+ * Summary: Small deterministic PRNG (mulberry32) owned by a game session.
+ * Every gameplay roll (enemy stats, AI decisions, spawns, decor) goes through
+ * one instance so two runs with the same seed and inputs play out identically.
+ */
+export class Random {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Current position in the sequence, for save games */
+  getState(): number {
+    return this.state;
+  }
+
+  /** Resumes the sequence at a position returned by getState() */
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+
+  /** Returns a float in [0, 1), like Math.random(). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns a float in [min, max). */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Returns true with the given probability (0 to 1). */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /** Picks a fresh seed for runs where the player did not choose one. */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+
+  /**
+   * Turns user text into a seed: plain numbers are used as-is, anything else
+   * (e.g. "SUNSET") is hashed with FNV-1a. Words are case-insensitive, as the
+   * menu shows them in capitals. Returns null for empty text.
+   */
+  static parseSeed(text: string): number | null {
+    const trimmed = text.trim().toUpperCase();
+    if (trimmed === '') return null;
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,197 @@
+import { type DifficultyId, EMPTY_INPUT, GAME_VERSION, type GameMode, type InputSnapshot, isGameMode } from '../types';
+import { DEFAULT_DIFFICULTY, isDifficulty } from './Difficulty';
+
+/**
+ * SECTION: REPLAY FORMAT
+ * Summary: A replay is the session seed plus the input of every simulated tick.
+ * Because the engine is deterministic for a given seed, feeding the same inputs
+ * back reproduces the run frame-for-frame.
+ * Inputs are packed into bitmasks (12 bits per player, Player 1 in the low
+ * bits) and run-length encoded as [mask, count] pairs, which keeps a full
+ * five-phase run down to a few kilobytes of JSON. Format 1 files used 8 bits
+ * per player and are repacked on load.
+ */
+export const REPLAY_FORMAT = 2;
+
+export interface ReplayData {
+  format: number;
+  /** Game version that recorded the run; other versions may desync */
+  version: string;
+  seed: number;
+  /** Number of players (1 solo, 2 co-op); older files without it are solo */
+  players: number;
+  /** Difficulty preset; older files without it are Normal */
+  difficulty: DifficultyId;
+  /** Older files without it are campaign runs */
+  mode: GameMode;
+  /** Total number of simulated ticks */
+  ticks: number;
+  /** Run-length encoded input bitmasks: [mask, repeat count] */
+  inputs: [number, number][];
+}
+
+// Leaves room for new actions without another format bump
+const BITS_PER_PLAYER = 12;
+const LEGACY_BITS_PER_PLAYER = 8;
+export const MAX_PLAYERS = 2;
+const PLAYER_MASK = (1 << BITS_PER_PLAYER) - 1;
+
+// Bit order is part of the file format: only append new actions at the end
+const INPUT_BITS: (keyof InputSnapshot)[] = ['up', 'down', 'left', 'right', 'jab', 'straight', 'dodge', 'special', 'grab', 'jump', 'guard'];
+
+export function encodeInput(input: InputSnapshot): number {
+  let mask = 0;
+  INPUT_BITS.forEach((key, bit) => {
+    if (input[key]) mask |= 1 << bit;
+  });
+  return mask;
+}
+
+export function decodeInput(mask: number): InputSnapshot {
+  const input: InputSnapshot = { ...EMPTY_INPUT };
+  INPUT_BITS.forEach((key, bit) => {
+    input[key] = (mask & (1 << bit)) !== 0;
+  });
+  return input;
+}
+
+/**
+ * SECTION: RECORDER
+ * Summary: Collects one input per simulated tick. Owned by GameEngine.
+ */
+export class ReplayRecorder {
+  private runs: [number, number][] = [];
+  private ticks: number = 0;
+
+  /** Pass recorded data to keep appending to it (continued runs) */
+  constructor(data?: ReplayData) {
+    if (data) {
+      this.runs = data.inputs.map(([mask, count]) => [mask, count]);
+      this.ticks = data.ticks;
+    }
+  }
+
+  record(inputs: InputSnapshot[]) {
+    const mask = inputs.reduce((acc, input, i) => acc | (encodeInput(input) << (i * BITS_PER_PLAYER)), 0);
+    const last = this.runs[this.runs.length - 1];
+    if (last && last[0] === mask) {
+      last[1]++;
+    } else {
+      this.runs.push([mask, 1]);
+    }
+    this.ticks++;
+  }
+
+  toData(seed: number, players: number, difficulty: DifficultyId, mode: GameMode): ReplayData {
+    return {
+      format: REPLAY_FORMAT,
+      version: GAME_VERSION,
+      seed,
+      players,
+      difficulty,
+      mode,
+      ticks: this.ticks,
+      inputs: this.runs.map(([mask, count]) => [mask, count])
+    };
+  }
+}
+
+/**
+ * SECTION: PLAYER
+ * Summary: Expands a replay into a per-tick lookup so the runner can drive the
+ * engine from recorded inputs instead of the keyboard.
+ */
+export class ReplayPlayer {
+  readonly data: ReplayData;
+  private masks: Uint32Array;
+
+  constructor(data: ReplayData) {
+    this.data = data;
+    this.masks = new Uint32Array(data.ticks);
+    let tick = 0;
+    data.inputs.forEach(([mask, count]) => {
+      this.masks.fill(mask, tick, tick + count);
+      tick += count;
+    });
+  }
+
+  /** Per-player input for the given simulation tick; idle once the recording runs out. */
+  inputsAt(tick: number): InputSnapshot[] {
+    const mask = tick < this.data.ticks ? this.masks[tick] : 0;
+    return Array.from({ length: this.data.players }, (_, i) => decodeInput((mask >> (i * BITS_PER_PLAYER)) & PLAYER_MASK));
+  }
+
+  isFinished(tick: number): boolean {
+    return tick >= this.data.ticks;
+  }
+}
+
+/** Moves each player's bits from the format 1 layout (8 per player) to the current one */
+function repackLegacyMask(mask: number, players: number): number {
+  let repacked = 0;
+  for (let i = 0; i < players; i++) {
+    repacked |= ((mask >> (i * LEGACY_BITS_PER_PLAYER)) & 0xff) << (i * BITS_PER_PLAYER);
+  }
+  return repacked;
+}
+
+/** A `[mask, tickCount]` pair as stored in the file */
+const isInputRun = (v: unknown): v is [number, number] => Array.isArray(v) && v.length === 2
+  && Number.isInteger(v[0]) && Number.isInteger(v[1]) && v[0] >= 0 && v[1] >= 1;
+
+export function serializeReplay(data: ReplayData): string {
+  return JSON.stringify(data);
+}
+
+/**
+ * Parses and validates a replay file. Throws an Error describing the first
+ * problem found so the menu can show it to the player.
+ */
+export function parseReplay(text: string): ReplayData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+  return readReplay(parsed);
+}
+
+/** Validates already-parsed replay data (a file, or the inputs riding in a save) */
+export function readReplay(parsed: unknown): ReplayData {
+  if (!parsed || typeof parsed !== 'object') throw new Error("Replay file is empty");
+  const raw = parsed as Record<string, unknown>;
+  const legacy = raw.format === 1;
+  if (raw.format !== REPLAY_FORMAT && !legacy) throw new Error(`Unsupported replay format: ${raw.format}`);
+  if (typeof raw.version !== 'string') throw new Error("Replay is missing the game version");
+  if (typeof raw.seed !== 'number' || !Number.isInteger(raw.seed) || raw.seed < 0) throw new Error("Replay has an invalid seed");
+  if (!Array.isArray(raw.inputs)) throw new Error("Replay is missing its inputs");
+  const players = raw.players ?? 1;
+  if (typeof players !== 'number' || !Number.isInteger(players) || players < 1 || players > MAX_PLAYERS) throw new Error("Replay has an invalid player count");
+  const difficulty = raw.difficulty ?? DEFAULT_DIFFICULTY;
+  if (!isDifficulty(difficulty)) throw new Error(`Replay has an unknown difficulty: ${difficulty}`);
+  const mode = raw.mode ?? 'campaign';
+  if (!isGameMode(mode)) throw new Error(`Replay has an unknown game mode: ${mode}`);
+  const maxMask = 2 ** (players * (legacy ? LEGACY_BITS_PER_PLAYER : BITS_PER_PLAYER)) - 1;
+
+  let ticks = 0;
+  const inputs: [number, number][] = [];
+  for (const run of raw.inputs as unknown[]) {
+    if (!isInputRun(run) || run[0] > maxMask) throw new Error("Replay inputs are corrupted");
+    const [mask, count] = run;
+    inputs.push([legacy ? repackLegacyMask(mask, players) : mask, count]);
+    ticks += count;
+  }
+  if (ticks !== raw.ticks) throw new Error("Replay tick count does not match its inputs");
+
+  return {
+    format: REPLAY_FORMAT,
+    version: raw.version,
+    seed: raw.seed,
+    players,
+    difficulty,
+    mode,
+    ticks,
+    inputs
+  };
+}
@@ -0,0 +1,134 @@
+import { GameEventBus } from './GameEvents';
+
+export interface PhaseRunStats {
+  phase: number;
+  name: string;
+  /** Simulated ticks spent in the phase, 'GO!' walk included */
+  ticks: number;
+  damageDealt: number;
+  damageTaken: number;
+  kills: number;
+  chaos: number;
+}
+
+export interface BossKill {
+  name: string;
+  phase: number;
+  /** Ticks from the boss entering to going down */
+  ticks: number;
+  /** Run time (ticks) when the boss went down, for boss rush splits */
+  split: number;
+}
+
+export interface RunStats {
+  ticks: number;
+  damageDealt: number;
+  damageTaken: number;
+  /** Melee hits that connected */
+  hitsLanded: number;
+  /** Jabs and straights that ended without landing a hit */
+  swingsWhiffed: number;
+  /** Player swings sidestepped by an enemy (Enemy.tryDodge) */
+  enemyDodges: number;
+  playerDodges: number;
+  specialsFired: number;
+  /** Enemies caught by special blasts */
+  specialCatches: number;
+  kills: number;
+  /** Beach props smashed or thrown to pieces */
+  propsWrecked: number;
+  /** Windups parried and void orbs reflected */
+  parries: number;
+  maxStreak: number;
+  bossKills: BossKill[];
+  phases: PhaseRunStats[];
+}
+
+/**
+ * SECTION: RUN STATISTICS
+ * Summary: Tallies a run from the engine's events for the results screen.
+ * The engine owns one tracker, calls tick() every simulated tick (phase
+ * timing, boss kill times) and folds in the per-player swing and dodge
+ * counters when the stats are read.
+ */
+export class RunStatsTracker {
+  private stats: RunStats;
+  private bossSpawnTick: number | null = null;
+
+  constructor(events: GameEventBus, firstPhase: { phase: number; name: string }) {
+    this.stats = {
+      ticks: 0, damageDealt: 0, damageTaken: 0, hitsLanded: 0, swingsWhiffed: 0,
+      enemyDodges: 0, playerDodges: 0, specialsFired: 0, specialCatches: 0, kills: 0,
+      propsWrecked: 0, parries: 0, maxStreak: 0, bossKills: [], phases: [],
+    };
+    this.startPhase(firstPhase.phase, firstPhase.name);
+
+    events.on('enemyHit', ({ damage, special }) => {
+      this.stats.damageDealt += damage;
+      this.currentPhase.damageDealt += damage;
+      if (special) this.stats.specialCatches++;
+      else this.stats.hitsLanded++;
+    });
+    events.on('enemyKilled', ({ chaos }) => {
+      this.stats.kills++;
+      this.currentPhase.kills++;
+      this.currentPhase.chaos += chaos;
+    });
+    events.on('propBroken', ({ chaos }) => {
+      this.stats.propsWrecked++;
+      this.currentPhase.chaos += chaos;
+    });
+    events.on('attackParried', ({ chaos }) => {
+      this.stats.parries++;
+      this.currentPhase.chaos += chaos;
+    });
+    events.on('enemyDodged', () => this.stats.enemyDodges++);
+    events.on('playerDamaged', ({ damage }) => {
+      this.stats.damageTaken += damage;
+      this.currentPhase.damageTaken += damage;
+    });
+    events.on('specialFired', () => this.stats.specialsFired++);
+    events.on('phaseStarted', ({ phase, name }) => this.startPhase(phase, name));
+    events.on('bossSpawned', () => { this.bossSpawnTick = this.stats.ticks; });
+    events.on('bossDefeated', ({ name }) => {
+      this.stats.bossKills.push({
+        name, phase: this.currentPhase.phase, ticks: this.stats.ticks - (this.bossSpawnTick ?? this.stats.ticks),
+        split: this.stats.ticks,
+      });
+      this.bossSpawnTick = null;
+    });
+  }
+
+  private get currentPhase(): PhaseRunStats {
+    return this.stats.phases[this.stats.phases.length - 1];
+  }
+
+  private startPhase(phase: number, name: string) {
+    this.stats.phases.push({ phase, name, ticks: 0, damageDealt: 0, damageTaken: 0, kills: 0, chaos: 0 });
+  }
+
+  tick() {
+    this.stats.ticks++;
+    this.currentPhase.ticks++;
+  }
+
+  /** A copy of the tallies, completed with the values only the engine knows */
+  getStats(extra: { swingsWhiffed: number; playerDodges: number; maxStreak: number }): RunStats {
+    return {
+      ...this.stats,
+      ...extra,
+      bossKills: this.stats.bossKills.map(kill => ({ ...kill })),
+      phases: this.stats.phases.map(phase => ({ ...phase })),
+    };
+  }
+
+  /** Save game support: the raw tallies plus a boss timer in progress */
+  toSnapshot(): { stats: RunStats; bossSpawnTick: number | null } {
+    return { stats: this.getStats(this.stats), bossSpawnTick: this.bossSpawnTick };
+  }
+
+  restoreSnapshot(snapshot: { stats: RunStats; bossSpawnTick: number | null }) {
+    this.stats = snapshot.stats;
+    this.bossSpawnTick = snapshot.bossSpawnTick;
+  }
+}
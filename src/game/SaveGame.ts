@@ -0,0 +1,533 @@
+import { type DifficultyId, EntityState, GAME_VERSION, type GameMode, type PickupKind, type PropKind, isGameMode } from '../types';
+import { BOSS_KINDS, type BossKind } from './Boss';
+import { bossStageCount } from './Bosses';
+import type { ComboMove } from './Combos';
+import type { Projectile } from './Enemy';
+import { MAX_PLAYERS, type ReplayData, readReplay } from './Replay';
+import type { RunStats } from './RunStats';
+import { isDifficulty } from './Difficulty';
+import { PICKUP_TYPES, type Pickup } from './Pickups';
+import { PROP_STATES, type PropState, isPropKind } from './Props';
+import { hasArchetype } from './EnemyArchetypes';
+
+/**
+ * SECTION: SAVE FORMAT
+ * Summary: A save is a full snapshot of the engine: every player and enemy
+ * (AI timers, projectiles, boss stages included), the beach props, the score, the phase flags
+ * and the PRNG position, so a continued run plays on exactly as it would have.
+ * Entities point at each other by index (players by slot, enemies by their
+ * position in the enemy list). The inputs so far ride along, so the replay of
+ * a continued run still starts from the seed.
+ * Saves only load on the GAME_VERSION that wrote them; tuning changes between
+ * versions would make the snapshot meaningless.
+ */
+export const SAVE_FORMAT = 11;
+
+const STORAGE_KEY = 'sunset-brawler-save';
+
+export interface EntitySnapshot {
+  x: number;
+  y: number;
+  z: number;
+  hp: number;
+  maxHp: number;
+  state: EntityState;
+  facing: 1 | -1;
+  speed: number;
+  scale: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  stateTimer: number;
+  invincibleTimer: number;
+  currentFrame: number;
+  animationTick: number;
+}
+
+/** A ComboStrike with its finisher stored by combo id */
+export interface StrikeSnapshot {
+  damage: number;
+  knockback: number;
+  finisher: string | null;
+}
+
+export interface PlayerSnapshot extends EntitySnapshot {
+  reviveProgress: number;
+  /** Index of the grappler holding this player */
+  heldBy: number | null;
+  struggle: number;
+  /** Index of the prop being carried */
+  carrying: number | null;
+  /** Index of the enemy held in a grab */
+  holding: number | null;
+  grabPunches: number;
+  grabCooldown: number;
+  /** The current jump already spent its aerial strike */
+  aerialUsed: boolean;
+  guardMeter: number;
+  specialUnlocked: boolean;
+  specialCooldownTimer: number;
+  isChargingSpecial: boolean;
+  specialChargeTimer: number;
+  specialAttackActive: boolean;
+  specialAttackRadius: number;
+  specialActiveTimer: number;
+  comboChain: ComboMove[];
+  currentStrike: StrikeSnapshot | null;
+  specialStrike: StrikeSnapshot;
+  comboHits: number;
+  comboDisplayTimer: number;
+  finisherName: string | null;
+  finisherTimer: number;
+  bufferedMove: ComboMove | null;
+  heldMoves: { jab: boolean; straight: boolean; special: boolean; grab: boolean; jump: boolean; guard: boolean };
+  swings: number;
+  swingsLanded: number;
+  dodges: number;
+  swingLanded: boolean;
+  powerTimer: number;
+  hasteTimer: number;
+  /** Indices of the enemies the current swing already resolved */
+  struck: number[];
+}
+
+export interface BossSnapshot {
+  kind: BossKind;
+  stageIndex: number;
+  baseSpeed: number;
+  cooldowns: [string, number][];
+  pendingSummons: number;
+  calloutText: string | null;
+  calloutTimer: number;
+  isChargingBlast: boolean;
+  blastChargeTimer: number;
+  blastActive: boolean;
+  blastRadius: number;
+  /** Extra per-boss pattern state (e.g. an orb cast in progress) */
+  patternState: Record<string, number | boolean>;
+}
+
+export interface EnemySnapshot extends EntitySnapshot {
+  archetype: string;
+  color: string;
+  /** Player slot being chased */
+  target: number | null;
+  retargetTimer: number;
+  aiTick: number;
+  attackInterval: number;
+  windupTime: number;
+  windupTimer: number;
+  nextAttackType: EntityState;
+  pendingAction: 'strike' | 'sweep' | 'grab' | 'throw';
+  dodgeCooldown: number;
+  lungeCooldown: number;
+  /** Player slot held by this grappler */
+  grabbed: number | null;
+  grabHoldTimer: number;
+  grabReachTimer: number;
+  grabCooldown: number;
+  escapeTimer: number;
+  /** Slot of the player who threw this enemy */
+  thrownBy: number | null;
+  projectiles: Projectile[];
+  boss: BossSnapshot | null;
+}
+
+export interface PropSnapshot {
+  kind: PropKind;
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vz: number;
+  hp: number;
+  state: PropState;
+  facing: 1 | -1;
+  hitTimer: number;
+  debrisTimer: number;
+  thrownBy: number | null;
+}
+
+export interface SaveData {
+  format: number;
+  version: string;
+  /** Date.now() when written, shown on the menu */
+  savedAt: number;
+  /** Name of the level being played */
+  level: string;
+  seed: number;
+  difficulty: DifficultyId;
+  mode: GameMode;
+  rngState: number;
+  players: number;
+  tick: number;
+  chaos: number;
+  phase: number;
+  streak: number;
+  multiplier: number;
+  maxStreak: number;
+  maxMultiplier: number;
+  isTransitioning: boolean;
+  bossSequenceActive: boolean;
+  bossSpawnedForCurrentPhase: boolean;
+  hitstopTimer: number;
+  clouds: { x: number; y: number; s: number }[];
+  palms: { x: number; scale: number }[];
+  playerStates: PlayerSnapshot[];
+  enemies: EnemySnapshot[];
+  pickups: Pickup[];
+  props: PropSnapshot[];
+  /** Ticks left on the team's chaos booster */
+  boosterTimer: number;
+  runStats: { stats: RunStats; bossSpawnTick: number | null };
+  replay: ReplayData;
+}
+
+/**
+ * SECTION: SAVE VALIDATION
+ * Summary: Readers rebuild the save field by field from the parsed JSON,
+ * throwing on the first value of the wrong type or out of range, so a
+ * corrupted slot is rejected here instead of breaking the engine mid-restore.
+ * `what` names the part being read for the error message.
+ */
+type Fields = Record<string, unknown>;
+
+const invalid = (what: string): never => {
+  throw new Error(`Save has an invalid ${what}`);
+};
+
+const isFields = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function record(v: unknown, what: string): Fields {
+  return isFields(v) ? v : invalid(what);
+}
+
+function list<T>(v: unknown, what: string, read: (entry: unknown) => T): T[] {
+  return Array.isArray(v) ? v.map(read) : invalid(what);
+}
+
+function asNumber(v: unknown, what: string): number {
+  return typeof v === 'number' && Number.isFinite(v) ? v : invalid(what);
+}
+
+function asInt(v: unknown, what: string, min: number = 0, max: number = Infinity): number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= min && v < max ? v : invalid(what);
+}
+
+function asString(v: unknown, what: string): string {
+  return typeof v === 'string' ? v : invalid(what);
+}
+
+function asMember<T>(v: unknown, what: string, values: readonly T[]): T {
+  const found = values.find(value => value === v);
+  return found !== undefined ? found : invalid(what);
+}
+
+/** Names a field for the error message; top-level fields pass an empty `what` */
+const field = (what: string, key: string) => what ? `${what} ${key}` : key;
+
+const num = (o: Fields, key: string, what: string) => asNumber(o[key], field(what, key));
+const int = (o: Fields, key: string, what: string, min?: number, max?: number) => asInt(o[key], field(what, key), min, max);
+const str = (o: Fields, key: string, what: string) => asString(o[key], field(what, key));
+const oneOf = <T>(o: Fields, key: string, what: string, values: readonly T[]) => asMember(o[key], field(what, key), values);
+const optionalStr = (o: Fields, key: string, what: string) => o[key] === null ? null : str(o, key, what);
+
+function bool(o: Fields, key: string, what: string): boolean {
+  const v = o[key];
+  return typeof v === 'boolean' ? v : invalid(field(what, key));
+}
+
+/** An index into another list (or a player slot), or null */
+function index(o: Fields, key: string, what: string, length: number): number | null {
+  return o[key] === null ? null : int(o, key, what, 0, length);
+}
+
+const ENTITY_STATES = Object.values(EntityState);
+const COMBO_MOVES: readonly ComboMove[] = ['jab', 'straight', 'special'];
+const FACINGS = [1, -1] as const;
+
+/** Lengths of the lists that snapshot indices point into */
+interface SaveCounts {
+  players: number;
+  enemies: number;
+  props: number;
+}
+
+function readEntity(o: Fields, what: string): EntitySnapshot {
+  return {
+    x: num(o, 'x', what), y: num(o, 'y', what), z: num(o, 'z', what),
+    hp: num(o, 'hp', what), maxHp: num(o, 'maxHp', what),
+    state: oneOf(o, 'state', what, ENTITY_STATES), facing: oneOf(o, 'facing', what, FACINGS),
+    speed: num(o, 'speed', what), scale: num(o, 'scale', what),
+    vx: num(o, 'vx', what), vy: num(o, 'vy', what), vz: num(o, 'vz', what),
+    stateTimer: num(o, 'stateTimer', what), invincibleTimer: num(o, 'invincibleTimer', what),
+    currentFrame: int(o, 'currentFrame', what), animationTick: num(o, 'animationTick', what),
+  };
+}
+
+function readStrike(v: unknown, what: string): StrikeSnapshot {
+  const o = record(v, what);
+  return { damage: num(o, 'damage', what), knockback: num(o, 'knockback', what), finisher: optionalStr(o, 'finisher', what) };
+}
+
+function readPlayer(v: unknown, counts: SaveCounts): PlayerSnapshot {
+  const what = 'player';
+  const o = record(v, what);
+  const held = record(o.heldMoves, `${what} heldMoves`);
+  return {
+    ...readEntity(o, what),
+    reviveProgress: num(o, 'reviveProgress', what),
+    heldBy: index(o, 'heldBy', what, counts.enemies),
+    struggle: num(o, 'struggle', what),
+    carrying: index(o, 'carrying', what, counts.props),
+    holding: index(o, 'holding', what, counts.enemies),
+    grabPunches: num(o, 'grabPunches', what),
+    grabCooldown: num(o, 'grabCooldown', what),
+    aerialUsed: bool(o, 'aerialUsed', what),
+    guardMeter: num(o, 'guardMeter', what),
+    specialUnlocked: bool(o, 'specialUnlocked', what),
+    specialCooldownTimer: num(o, 'specialCooldownTimer', what),
+    isChargingSpecial: bool(o, 'isChargingSpecial', what),
+    specialChargeTimer: num(o, 'specialChargeTimer', what),
+    specialAttackActive: bool(o, 'specialAttackActive', what),
+    specialAttackRadius: num(o, 'specialAttackRadius', what),
+    specialActiveTimer: num(o, 'specialActiveTimer', what),
+    comboChain: list(o.comboChain, `${what} comboChain`, move => asMember(move, `${what} comboChain`, COMBO_MOVES)),
+    currentStrike: o.currentStrike === null ? null : readStrike(o.currentStrike, `${what} currentStrike`),
+    specialStrike: readStrike(o.specialStrike, `${what} specialStrike`),
+    comboHits: num(o, 'comboHits', what),
+    comboDisplayTimer: num(o, 'comboDisplayTimer', what),
+    finisherName: optionalStr(o, 'finisherName', what),
+    finisherTimer: num(o, 'finisherTimer', what),
+    bufferedMove: o.bufferedMove === null ? null : oneOf(o, 'bufferedMove', what, COMBO_MOVES),
+    heldMoves: {
+      jab: bool(held, 'jab', what), straight: bool(held, 'straight', what), special: bool(held, 'special', what),
+      grab: bool(held, 'grab', what), jump: bool(held, 'jump', what), guard: bool(held, 'guard', what),
+    },
+    swings: num(o, 'swings', what),
+    swingsLanded: num(o, 'swingsLanded', what),
+    dodges: num(o, 'dodges', what),
+    swingLanded: bool(o, 'swingLanded', what),
+    powerTimer: num(o, 'powerTimer', what),
+    hasteTimer: num(o, 'hasteTimer', what),
+    struck: list(o.struck, `${what} struck`, slot => asInt(slot, `${what} struck`, 0, counts.enemies)),
+  };
+}
+
+function readProjectile(v: unknown, counts: SaveCounts): Projectile {
+  const what = 'projectile';
+  const o = record(v, what);
+  const projectile: Projectile = {
+    x: num(o, 'x', what), y: num(o, 'y', what), vx: num(o, 'vx', what), vy: num(o, 'vy', what),
+    life: num(o, 'life', what), damage: num(o, 'damage', what),
+    kind: oneOf(o, 'kind', what, ['orb', 'bottle'] as const),
+  };
+  if (o.reflectedBy !== undefined) projectile.reflectedBy = int(o, 'reflectedBy', what, 0, counts.players);
+  return projectile;
+}
+
+function readBoss(v: unknown): BossSnapshot {
+  const what = 'boss';
+  const o = record(v, what);
+  const kind = oneOf(o, 'kind', what, BOSS_KINDS);
+  const patternState = record(o.patternState, `${what} patternState`);
+  return {
+    kind,
+    // -1 until the boss enters its first stage
+    stageIndex: int(o, 'stageIndex', what, -1, bossStageCount(kind)),
+    baseSpeed: num(o, 'baseSpeed', what),
+    cooldowns: list(o.cooldowns, `${what} cooldowns`, entry => {
+      if (!Array.isArray(entry) || entry.length !== 2) return invalid(`${what} cooldowns`);
+      return [asString(entry[0], `${what} cooldowns`), asNumber(entry[1], `${what} cooldowns`)];
+    }),
+    pendingSummons: int(o, 'pendingSummons', what),
+    calloutText: optionalStr(o, 'calloutText', what),
+    calloutTimer: num(o, 'calloutTimer', what),
+    isChargingBlast: bool(o, 'isChargingBlast', what),
+    blastChargeTimer: num(o, 'blastChargeTimer', what),
+    blastActive: bool(o, 'blastActive', what),
+    blastRadius: num(o, 'blastRadius', what),
+    patternState: Object.fromEntries(Object.keys(patternState).map(key =>
+      [key, typeof patternState[key] === 'boolean' ? bool(patternState, key, what) : num(patternState, key, `${what} patternState`)])),
+  };
+}
+
+function readEnemy(v: unknown, counts: SaveCounts): EnemySnapshot {
+  const what = 'enemy';
+  const o = record(v, what);
+  const boss = o.boss === null ? null : readBoss(o.boss);
+  const archetype = str(o, 'archetype', what);
+  if (!boss && !hasArchetype(archetype)) invalid(`${what} archetype`);
+  return {
+    ...readEntity(o, what),
+    archetype,
+    color: str(o, 'color', what),
+    target: index(o, 'target', what, counts.players),
+    retargetTimer: num(o, 'retargetTimer', what),
+    aiTick: int(o, 'aiTick', what),
+    attackInterval: num(o, 'attackInterval', what),
+    windupTime: num(o, 'windupTime', what),
+    windupTimer: num(o, 'windupTimer', what),
+    nextAttackType: oneOf(o, 'nextAttackType', what, ENTITY_STATES),
+    pendingAction: oneOf(o, 'pendingAction', what, ['strike', 'sweep', 'grab', 'throw'] as const),
+    dodgeCooldown: num(o, 'dodgeCooldown', what),
+    lungeCooldown: num(o, 'lungeCooldown', what),
+    grabbed: index(o, 'grabbed', what, counts.players),
+    grabHoldTimer: num(o, 'grabHoldTimer', what),
+    grabReachTimer: num(o, 'grabReachTimer', what),
+    grabCooldown: num(o, 'grabCooldown', what),
+    escapeTimer: num(o, 'escapeTimer', what),
+    thrownBy: index(o, 'thrownBy', what, counts.players),
+    projectiles: list(o.projectiles, `${what} projectiles`, p => readProjectile(p, counts)),
+    boss,
+  };
+}
+
+function readProp(v: unknown, counts: SaveCounts): PropSnapshot {
+  const what = 'prop';
+  const o = record(v, what);
+  const kind = o.kind;
+  return {
+    kind: isPropKind(kind) ? kind : invalid(`${what} kind`),
+    x: num(o, 'x', what), y: num(o, 'y', what), z: num(o, 'z', what),
+    vx: num(o, 'vx', what), vz: num(o, 'vz', what), hp: num(o, 'hp', what),
+    state: oneOf(o, 'state', what, PROP_STATES),
+    facing: oneOf(o, 'facing', what, FACINGS),
+    hitTimer: num(o, 'hitTimer', what),
+    debrisTimer: num(o, 'debrisTimer', what),
+    thrownBy: index(o, 'thrownBy', what, counts.players),
+  };
+}
+
+function readPickup(v: unknown): Pickup {
+  const what = 'pickup';
+  const o = record(v, what);
+  const kind = oneOf(o, 'kind', what, Object.keys(PICKUP_TYPES) as PickupKind[]);
+  return { kind, x: num(o, 'x', what), y: num(o, 'y', what), ttl: num(o, 'ttl', what) };
+}
+
+function readRunStats(v: unknown): SaveData['runStats'] {
+  const what = 'run stats';
+  const o = record(v, what);
+  const s = record(o.stats, what);
+  return {
+    stats: {
+      ticks: num(s, 'ticks', what), damageDealt: num(s, 'damageDealt', what), damageTaken: num(s, 'damageTaken', what),
+      hitsLanded: num(s, 'hitsLanded', what), swingsWhiffed: num(s, 'swingsWhiffed', what),
+      enemyDodges: num(s, 'enemyDodges', what), playerDodges: num(s, 'playerDodges', what),
+      specialsFired: num(s, 'specialsFired', what), specialCatches: num(s, 'specialCatches', what),
+      kills: num(s, 'kills', what), propsWrecked: num(s, 'propsWrecked', what), parries: num(s, 'parries', what),
+      maxStreak: num(s, 'maxStreak', what),
+      bossKills: list(s.bossKills, `${what} bossKills`, entry => {
+        const k = record(entry, `${what} bossKills`);
+        return { name: str(k, 'name', what), phase: int(k, 'phase', what, 1), ticks: num(k, 'ticks', what), split: num(k, 'split', what) };
+      }),
+      phases: list(s.phases, `${what} phases`, entry => {
+        const p = record(entry, `${what} phases`);
+        return {
+          phase: int(p, 'phase', what, 1), name: str(p, 'name', what), ticks: num(p, 'ticks', what),
+          damageDealt: num(p, 'damageDealt', what), damageTaken: num(p, 'damageTaken', what),
+          kills: num(p, 'kills', what), chaos: num(p, 'chaos', what),
+        };
+      }),
+    },
+    bossSpawnTick: o.bossSpawnTick === null ? null : num(o, 'bossSpawnTick', what),
+  };
+}
+
+/**
+ * Parses and checks a stored save. Throws an Error describing the first
+ * problem found.
+ */
+export function parseSave(text: string): SaveData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Save is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== 'object') throw new Error("Save is empty");
+  const raw = record(parsed, 'save');
+  if (raw.format !== SAVE_FORMAT) throw new Error(`Unsupported save format: ${raw.format}`);
+  if (raw.version !== GAME_VERSION) throw new Error(`Save was written by v${raw.version}`);
+  if (!isDifficulty(raw.difficulty)) throw new Error(`Unknown difficulty: ${raw.difficulty}`);
+  if (!isGameMode(raw.mode)) throw new Error(`Unknown game mode: ${raw.mode}`);
+  const what = '';
+  const players = int(raw, 'players', what, 1, MAX_PLAYERS + 1);
+  if (!Array.isArray(raw.playerStates) || raw.playerStates.length !== players) throw new Error("Save has an invalid player list");
+  if (!Array.isArray(raw.enemies) || !Array.isArray(raw.props)) throw new Error("Save is missing its enemies or props");
+  const counts: SaveCounts = { players, enemies: raw.enemies.length, props: raw.props.length };
+  return {
+    format: SAVE_FORMAT,
+    version: GAME_VERSION,
+    savedAt: num(raw, 'savedAt', what),
+    level: str(raw, 'level', what),
+    seed: int(raw, 'seed', what),
+    difficulty: raw.difficulty,
+    mode: raw.mode,
+    rngState: int(raw, 'rngState', what),
+    players,
+    tick: int(raw, 'tick', what),
+    chaos: num(raw, 'chaos', what),
+    phase: int(raw, 'phase', what, 1),
+    streak: num(raw, 'streak', what),
+    multiplier: num(raw, 'multiplier', what),
+    maxStreak: num(raw, 'maxStreak', what),
+    maxMultiplier: num(raw, 'maxMultiplier', what),
+    isTransitioning: bool(raw, 'isTransitioning', what),
+    bossSequenceActive: bool(raw, 'bossSequenceActive', what),
+    bossSpawnedForCurrentPhase: bool(raw, 'bossSpawnedForCurrentPhase', what),
+    hitstopTimer: num(raw, 'hitstopTimer', what),
+    clouds: list(raw.clouds, 'cloud list', entry => {
+      const c = record(entry, 'cloud');
+      return { x: num(c, 'x', 'cloud'), y: num(c, 'y', 'cloud'), s: num(c, 's', 'cloud') };
+    }),
+    palms: list(raw.palms, 'palm list', entry => {
+      const p = record(entry, 'palm');
+      return { x: num(p, 'x', 'palm'), scale: num(p, 'scale', 'palm') };
+    }),
+    playerStates: raw.playerStates.map(entry => readPlayer(entry, counts)),
+    enemies: raw.enemies.map(entry => readEnemy(entry, counts)),
+    pickups: list(raw.pickups, 'pickup list', readPickup),
+    props: raw.props.map(entry => readProp(entry, counts)),
+    boosterTimer: num(raw, 'boosterTimer', what),
+    runStats: readRunStats(raw.runStats),
+    replay: readReplay(raw.replay),
+  };
+}
+
+/**
+ * SECTION: PERSISTENCE
+ * Summary: One save slot in localStorage. A save that no longer parses (older
+ * version, corrupted) is dropped so the menu never offers a broken Continue.
+ */
+export function loadSave(): SaveData | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    return parseSave(raw);
+  } catch (e) {
+    console.warn("SaveGame: Discarding unreadable save", e);
+    clearSave();
+    return null;
+  }
+}
+
+export function writeSave(data: SaveData) {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (e) {
+    console.warn("SaveGame: Failed to write save", e);
+  }
+}
+
+export function clearSave() {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn("SaveGame: Failed to clear save", e);
+  }
+}
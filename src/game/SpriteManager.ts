@@ -37,6 +37,9 @@ export class SpriteManager {
     this.configs.set(key, config);
     this.loaded.set(key, false);
 
+    // Headless runs (Node, tooling) have no Image; the sheet simply never loads
+    if (typeof Image === 'undefined') return;
+
     const img = new Image();
     img.src = config.path;
     img.onload = () => {
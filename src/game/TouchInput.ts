@@ -0,0 +1,221 @@
+import { EMPTY_INPUT, GameAction, type InputSnapshot, WORLD_HEIGHT, WORLD_WIDTH } from '../types';
+import { ACTION_INPUTS } from './InputBindings';
+
+/**
+ * SECTION: TOUCH LAYOUT
+ * Summary: Button positions are in world space (800x600) so they scale with the
+ * canvas. The joystick floats: it is anchored wherever the thumb lands on the
+ * left side of the screen.
+ */
+interface TouchButton {
+  action: GameAction;
+  label: string;
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+}
+
+const TOUCH_BUTTONS: TouchButton[] = [
+  { action: GameAction.JAB, label: 'JAB', x: 645, y: 530, radius: 36, color: '#3b82f6' },
+  { action: GameAction.STRAIGHT, label: 'STR', x: 735, y: 475, radius: 36, color: '#ef4444' },
+  { action: GameAction.DODGE, label: 'DDG', x: 735, y: 560, radius: 30, color: '#22c55e' },
+  { action: GameAction.SPECIAL, label: 'SP', x: 645, y: 435, radius: 30, color: '#a855f7' },
+  { action: GameAction.GRAB, label: 'GRB', x: 555, y: 560, radius: 28, color: '#f59e0b' },
+  { action: GameAction.JUMP, label: 'JMP', x: 555, y: 480, radius: 28, color: '#14b8a6' },
+  { action: GameAction.GUARD, label: 'GRD', x: 470, y: 560, radius: 28, color: '#64748b' },
+];
+
+const STICK_ZONE_MAX_X = WORLD_WIDTH * 0.45;
+const STICK_RADIUS = 60;
+const STICK_KNOB_RADIUS = 26;
+const STICK_DEADZONE = 0.35;
+// Fingers are imprecise: buttons accept touches a bit outside their drawn circle
+const BUTTON_HIT_SLOP = 1.25;
+
+/** True on phones, tablets and touch laptops. */
+export function isTouchDevice(): boolean {
+  if (typeof window === 'undefined') return false;
+  return 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+}
+
+export interface TouchSpecialState {
+  specialUnlocked: boolean;
+  specialCooldown: number; // 0 to 1
+}
+
+/**
+ * SECTION: TOUCH INPUT ADAPTER
+ * Summary: Virtual joystick and action buttons drawn on top of the canvas.
+ * Each active touch is tracked by identifier, so moving with one thumb while
+ * attacking with the other works. Produces the same InputSnapshot as the
+ * keyboard and gamepad adapters.
+ */
+export class TouchInput {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D | null;
+  private visible: boolean = true;
+
+  private stickTouchId: number | null = null;
+  private stickOrigin = { x: 0, y: 0 };
+  private stickPos = { x: 0, y: 0 };
+  private buttonTouches: Map<number, GameAction> = new Map();
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d');
+    canvas.addEventListener('touchstart', this.handleTouchStart, { passive: false });
+    canvas.addEventListener('touchmove', this.handleTouchMove, { passive: false });
+    canvas.addEventListener('touchend', this.handleTouchEnd, { passive: false });
+    canvas.addEventListener('touchcancel', this.handleTouchEnd, { passive: false });
+  }
+
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    if (!visible) this.releaseAll();
+  }
+
+  /** Converts a touch to world coordinates, accounting for CSS scaling of the canvas. */
+  private toWorld(touch: Touch): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: ((touch.clientX - rect.left) / rect.width) * WORLD_WIDTH,
+      y: ((touch.clientY - rect.top) / rect.height) * WORLD_HEIGHT,
+    };
+  }
+
+  private handleTouchStart = (e: TouchEvent) => {
+    if (!this.visible) return;
+    e.preventDefault();
+    Array.from(e.changedTouches).forEach(touch => {
+      const p = this.toWorld(touch);
+      const button = TOUCH_BUTTONS.find(b => Math.hypot(p.x - b.x, p.y - b.y) < b.radius * BUTTON_HIT_SLOP);
+      if (button) {
+        this.buttonTouches.set(touch.identifier, button.action);
+      } else if (p.x < STICK_ZONE_MAX_X && this.stickTouchId === null) {
+        this.stickTouchId = touch.identifier;
+        this.stickOrigin = p;
+        this.stickPos = p;
+      }
+    });
+  };
+
+  private handleTouchMove = (e: TouchEvent) => {
+    if (!this.visible) return;
+    e.preventDefault();
+    Array.from(e.changedTouches).forEach(touch => {
+      if (touch.identifier === this.stickTouchId) this.stickPos = this.toWorld(touch);
+    });
+  };
+
+  private handleTouchEnd = (e: TouchEvent) => {
+    Array.from(e.changedTouches).forEach(touch => {
+      if (touch.identifier === this.stickTouchId) this.stickTouchId = null;
+      this.buttonTouches.delete(touch.identifier);
+    });
+  };
+
+  private releaseAll() {
+    this.stickTouchId = null;
+    this.buttonTouches.clear();
+  }
+
+  /** Stick deflection clamped to the base radius, as -1..1 per axis. */
+  private getStick(): { x: number; y: number } {
+    if (this.stickTouchId === null) return { x: 0, y: 0 };
+    const dx = this.stickPos.x - this.stickOrigin.x;
+    const dy = this.stickPos.y - this.stickOrigin.y;
+    const dist = Math.hypot(dx, dy);
+    if (dist === 0) return { x: 0, y: 0 };
+    const clamped = Math.min(dist, STICK_RADIUS);
+    return { x: (dx / dist) * clamped / STICK_RADIUS, y: (dy / dist) * clamped / STICK_RADIUS };
+  }
+
+  poll(): InputSnapshot {
+    const snapshot: InputSnapshot = { ...EMPTY_INPUT };
+    if (!this.visible) return snapshot;
+
+    const stick = this.getStick();
+    if (Math.hypot(stick.x, stick.y) > STICK_DEADZONE) {
+      // 8-way: an axis counts once it carries a fair share of the deflection
+      if (stick.y < -0.38) snapshot.up = true;
+      if (stick.y > 0.38) snapshot.down = true;
+      if (stick.x < -0.38) snapshot.left = true;
+      if (stick.x > 0.38) snapshot.right = true;
+    }
+    this.buttonTouches.forEach(action => {
+      snapshot[ACTION_INPUTS[action]] = true;
+    });
+    return snapshot;
+  }
+
+  /**
+   * SECTION: OVERLAY RENDERING
+   * Summary: Drawn after the world. The special button stays greyed out until
+   * unlocked and shows its cooldown as a sweeping arc.
+   */
+  draw(special: TouchSpecialState) {
+    const ctx = this.ctx;
+    if (!ctx || !this.visible) return;
+    ctx.save();
+
+    // Joystick: resting hint when idle, follows the thumb when active
+    const active = this.stickTouchId !== null;
+    const base = active ? this.stickOrigin : { x: 120, y: 480 };
+    const stick = this.getStick();
+    ctx.globalAlpha = active ? 0.6 : 0.25;
+    ctx.fillStyle = '#0f172a';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(base.x, base.y, STICK_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#facc15';
+    ctx.beginPath();
+    ctx.arc(base.x + stick.x * STICK_RADIUS, base.y + stick.y * STICK_RADIUS, STICK_KNOB_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Action buttons
+    const pressed = new Set(this.buttonTouches.values());
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 10px "Press Start 2P"';
+    TOUCH_BUTTONS.forEach(b => {
+      const isSpecial = b.action === GameAction.SPECIAL;
+      const locked = isSpecial && !special.specialUnlocked;
+      const coolingDown = isSpecial && special.specialUnlocked && special.specialCooldown > 0;
+
+      ctx.globalAlpha = locked ? 0.15 : pressed.has(b.action) ? 0.85 : 0.45;
+      ctx.fillStyle = locked || coolingDown ? '#475569' : b.color;
+      ctx.beginPath();
+      ctx.arc(b.x, b.y, b.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+
+      if (coolingDown) {
+        // Arc fills clockwise as the special recharges
+        ctx.strokeStyle = b.color;
+        ctx.lineWidth = 5;
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, b.radius - 4, -Math.PI / 2, -Math.PI / 2 + (1 - special.specialCooldown) * Math.PI * 2);
+        ctx.stroke();
+      }
+
+      ctx.globalAlpha = locked ? 0.3 : 0.9;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(b.label, b.x, b.y);
+    });
+
+    ctx.restore();
+  }
+
+  dispose() {
+    this.canvas.removeEventListener('touchstart', this.handleTouchStart);
+    this.canvas.removeEventListener('touchmove', this.handleTouchMove);
+    this.canvas.removeEventListener('touchend', this.handleTouchEnd);
+    this.canvas.removeEventListener('touchcancel', this.handleTouchEnd);
+  }
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { PAD_BUTTONS, getConnectedGamepads, isPadButtonPressed, readStick } from '../game/GamepadInput';
+
+/**
+ * SECTION: GAMEPAD CONNECTION
+ * Summary: Tracks whether any pad is connected so menus can show the pad layout.
+ */
+export function useGamepadConnected(): boolean {
+  const [connected, setConnected] = useState(() => getConnectedGamepads().length > 0);
+
+  useEffect(() => {
+    const refresh = () => setConnected(getConnectedGamepads().length > 0);
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
+  return connected;
+}
+
+type NavButton = 'prev' | 'next' | 'confirm' | 'back';
+
+/**
+ * Buttons the pad can reach. Overlays mark themselves with data-pad-scope so
+ * focus stays inside them instead of wandering to the HUD underneath.
+ */
+function getNavigableElements(): HTMLElement[] {
+  const scopes = document.querySelectorAll<HTMLElement>('[data-pad-scope]');
+  const root: ParentNode = scopes.length > 0 ? scopes[scopes.length - 1] : document;
+  return Array.from(root.querySelectorAll<HTMLElement>('button:not([disabled])'))
+    .filter(el => el.offsetParent !== null);
+}
+
+function setPadFocus(el: HTMLElement) {
+  document.querySelectorAll('[data-pad-focus]').forEach(node => node.removeAttribute('data-pad-focus'));
+  el.setAttribute('data-pad-focus', 'true');
+  el.focus();
+}
+
+/**
+ * SECTION: GAMEPAD MENU NAVIGATION
+ * Summary: While enabled, polls pads every frame and moves focus between the
+ * visible buttons (d-pad / stick), clicks the focused one (A) and triggers the
+ * element marked data-pad-back (B). Only edges count, so holding a direction
+ * moves one step at a time.
+ */
+export function useGamepadNavigation(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    const held: Record<NavButton, boolean> = { prev: true, next: true, confirm: true, back: true };
+    let frameId = 0;
+
+    const handle = (button: NavButton) => {
+      const elements = getNavigableElements();
+      if (elements.length === 0) return;
+      const current = elements.findIndex(el => el.hasAttribute('data-pad-focus'));
+
+      if (button === 'back') {
+        const back = elements.find(el => el.hasAttribute('data-pad-back'));
+        back?.click();
+      } else if (current === -1) {
+        // First press only reveals where focus is
+        setPadFocus(elements[0]);
+      } else if (button === 'confirm') {
+        elements[current].click();
+      } else {
+        const offset = button === 'next' ? 1 : -1;
+        setPadFocus(elements[(current + offset + elements.length) % elements.length]);
+      }
+    };
+
+    const poll = () => {
+      const now: Record<NavButton, boolean> = { prev: false, next: false, confirm: false, back: false };
+      getConnectedGamepads().forEach(pad => {
+        const stick = readStick(pad);
+        if (stick.y < -0.5 || stick.x < -0.5 || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_UP) || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_LEFT)) now.prev = true;
+        if (stick.y > 0.5 || stick.x > 0.5 || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_DOWN) || isPadButtonPressed(pad, PAD_BUTTONS.DPAD_RIGHT)) now.next = true;
+        if (isPadButtonPressed(pad, PAD_BUTTONS.A)) now.confirm = true;
+        if (isPadButtonPressed(pad, PAD_BUTTONS.B)) now.back = true;
+      });
+      (Object.keys(now) as NavButton[]).forEach(button => {
+        if (now[button] && !held[button]) handle(button);
+        held[button] = now[button];
+      });
+      frameId = requestAnimationFrame(poll);
+    };
+
+    // Buttons held while the screen opened (e.g. START that paused) must be released first
+    frameId = requestAnimationFrame(poll);
+    return () => {
+      cancelAnimationFrame(frameId);
+      document.querySelectorAll('[data-pad-focus]').forEach(node => node.removeAttribute('data-pad-focus'));
+    };
+  }, [enabled]);
+}
@@ -7,7 +7,89 @@ export enum EntityState {
   WINDING_UP = 'WINDING_UP',
   DODGING = 'DODGING',
   HIT = 'HIT',
-  DEAD = 'DEAD'
+  DEAD = 'DEAD',
+  /** Player holding an enemy */
+  GRABBING = 'GRABBING',
+  /** Enemy held by a player */
+  GRABBED = 'GRABBED',
+  /** Enemy flying after a player's throw */
+  THROWN = 'THROWN',
+  /** Player in the air (see Entity.z) */
+  JUMPING = 'JUMPING',
+  /** Aerial strikes: a flying kick, and a diagonal dive that lasts until landing */
+  JUMP_KICK = 'JUMP_KICK',
+  DIVE_KICK = 'DIVE_KICK',
+  /** Player holding up their guard */
+  GUARDING = 'GUARDING'
+}
+
+/**
+ * Abstract player actions. Raw devices (keyboard, pads...) are mapped onto these
+ * through bindings, so the engine never sees a key code.
+ */
+export enum GameAction {
+  MOVE_UP = 'MOVE_UP',
+  MOVE_DOWN = 'MOVE_DOWN',
+  MOVE_LEFT = 'MOVE_LEFT',
+  MOVE_RIGHT = 'MOVE_RIGHT',
+  JAB = 'JAB',
+  STRAIGHT = 'STRAIGHT',
+  DODGE = 'DODGE',
+  SPECIAL = 'SPECIAL',
+  GRAB = 'GRAB',
+  JUMP = 'JUMP',
+  GUARD = 'GUARD',
+  PAUSE = 'PAUSE'
+}
+
+/** Difficulty presets (see game/Difficulty.ts); part of replays, saves and scores */
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'nightmare';
+
+/**
+ * Campaign plays the level's phases once; endless generates waves until the
+ * players fall; boss rush chains the level's boss fights against the clock.
+ */
+export type GameMode = 'campaign' | 'endless' | 'bossRush';
+
+export const GAME_MODES: readonly GameMode[] = ['campaign', 'endless', 'bossRush'];
+
+export function isGameMode(value: unknown): value is GameMode {
+  return GAME_MODES.some(mode => mode === value);
+}
+
+/** Items enemies can drop (see game/Pickups.ts) */
+export type PickupKind = 'food' | 'booster' | 'power' | 'haste' | 'refill';
+
+/** Breakable beach objects placed by the level (see game/Props.ts) */
+export type PropKind = 'cooler' | 'umbrella' | 'surfboard' | 'sandcastle';
+
+/** A timed pickup effect for the HUD */
+export interface BuffStats {
+  kind: PickupKind;
+  /** Fraction of the duration left, 1 down to 0 */
+  remaining: number;
+}
+
+/** Per-player HUD data; index 0 is Player 1. */
+export interface PlayerStats {
+  hp: number;
+  maxHp: number;
+  specialCooldown: number; // 0 to 1
+  isDown: boolean;
+  reviveProgress: number; // 0 to 1
+  combo: number; // hits landed by the current combo chain
+  guard: number; // guard meter, 0 to 1
+  buffs: BuffStats[];
+}
+
+export interface BossStats {
+  name: string;
+  hp: number;
+  maxHp: number;
+  /** Name of the active HP-threshold stage */
+  stage: string;
+  /** HP fractions (0..1) where later stages begin, for bar markers */
+  stageMarkers: number[];
 }
 
 export interface GameStats {
@@ -15,14 +97,32 @@ export interface GameStats {
   maxHp: number;
   chaos: number;
   multiplier: number;
+  /** Team-wide chaos booster, if one is running */
+  chaosBoost: BuffStats | null;
+  /** Campaign phase, the wave number in endless mode or the fight in boss rush */
   phase: number;
+  /** Phases in the level; 0 in endless mode, where waves never run out */
+  phaseCount: number;
+  phaseName: string;
   streak: number;
+  /** Best streak and multiplier reached this run */
+  maxStreak: number;
+  maxMultiplier: number;
+  /** Simulated ticks so far (TICKS_PER_SECOND per second of play) */
+  ticks: number;
   targetChaos: number;
   specialCooldown: number; // 0 to 1
   specialUnlocked: boolean;
   isBossActive: boolean;
+  /** The living boss, if one is on screen */
+  boss: BossStats | null;
   isVictory: boolean;
+  isGameOver: boolean;
   isPaused: boolean;
+  seed: number;
+  difficulty: DifficultyId;
+  mode: GameMode;
+  players: PlayerStats[];
 }
 
 export interface Rect {
@@ -32,4 +132,40 @@ export interface Rect {
   height: number;
 }
 
-export const PHASE_TARGETS = [100, 1000, 3000, 5000, 10000];
+/**
+ * Per-tick input consumed by the simulation. Produced by input adapters
+ * (keyboard listeners, scripted tools...) so the engine never touches the DOM.
+ * 'pause' is an edge: true only on the poll right after pause was pressed.
+ */
+export interface InputSnapshot {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  jab: boolean;
+  straight: boolean;
+  dodge: boolean;
+  special: boolean;
+  grab: boolean;
+  jump: boolean;
+  guard: boolean;
+  pause: boolean;
+}
+
+export const EMPTY_INPUT: InputSnapshot = {
+  up: false, down: false, left: false, right: false,
+  jab: false, straight: false, dodge: false, special: false, grab: false, jump: false, guard: false, pause: false
+};
+
+/** Recorded into replays; bump whenever gameplay rules change */
+export const GAME_VERSION = '1.8.1';
+
+/**
+ * Fixed simulation rate. Every per-tick value in the game (speeds, friction,
+ * state timers, cooldowns) is tuned against this rate.
+ */
+export const TICKS_PER_SECOND = 60;
+
+/** Logical playfield size; the canvas renderer draws 1:1 into this space. */
+export const WORLD_WIDTH = 800;
+export const WORLD_HEIGHT = 600;